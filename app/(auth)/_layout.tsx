@@ -6,6 +6,7 @@ export default function AuthLayout() {
     <Stack>
       <Stack.Screen name="login" options={{ headerShown: false }} />
       <Stack.Screen name="register" options={{ title: 'Create Account' }} />
+      <Stack.Screen name="forgot-password" options={{ title: 'Reset Password' }} />
     </Stack>
   );
 }
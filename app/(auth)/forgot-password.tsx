@@ -0,0 +1,255 @@
+import React, { useState } from 'react';
+import {
+  View,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  TouchableWithoutFeedback,
+  Keyboard,
+  ActivityIndicator,
+  Alert,
+  Text,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { useRouter } from 'expo-router';
+
+import { theme } from '../constants/Theme';
+import { strings } from '../utils/strings';
+import { ApiError, requestPasswordReset, confirmPasswordReset } from '../services/api';
+
+type FormErrors = {
+  email?: string;
+  code?: string;
+  password?: string;
+  confirmPassword?: string;
+  general?: string;
+};
+
+export default function ForgotPasswordScreen() {
+  const router = useRouter();
+  const [email, setEmail] = useState('');
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [codeSent, setCodeSent] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [errors, setErrors] = useState<FormErrors>({});
+
+  const errorMessage = (error: unknown) =>
+    error instanceof ApiError ? error.message : strings.common.error;
+
+  // Step 1: ask the server to email a reset code
+  const handleSendCode = async () => {
+    if (!email) {
+      setErrors({ email: strings.auth.emailRequired });
+      return;
+    }
+    if (!email.includes('@')) {
+      setErrors({ email: strings.auth.invalidEmail });
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setErrors({});
+      await requestPasswordReset(email);
+      setCodeSent(true);
+    } catch (error) {
+      console.error('Password reset request error:', error);
+      setErrors({ general: errorMessage(error) });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Step 2: set the new password with the emailed code
+  const handleResetPassword = async () => {
+    const newErrors: FormErrors = {};
+    if (!code.trim()) {
+      newErrors.code = strings.auth.resetCodeRequired;
+    }
+    if (!password) {
+      newErrors.password = strings.auth.passwordRequired;
+    } else if (password.length < 6) {
+      newErrors.password = strings.auth.passwordLength;
+    }
+    if (password !== confirmPassword) {
+      newErrors.confirmPassword = strings.auth.passwordMatch;
+    }
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+
+    try {
+      setIsLoading(true);
+      await confirmPasswordReset(email, code, password);
+      Alert.alert(strings.auth.resetTitle, strings.auth.resetSuccess);
+      router.replace('/(auth)/login');
+    } catch (error) {
+      console.error('Password reset error:', error);
+      setErrors({ general: errorMessage(error) });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <StatusBar style="auto" />
+      <TouchableWithoutFeedback onPress={Keyboard.dismiss}>
+        <SafeAreaView style={styles.innerContainer}>
+          <Text style={styles.title}>{strings.auth.resetTitle}</Text>
+          <Text style={styles.instructions}>
+            {codeSent ? strings.auth.resetCodeSent : strings.auth.resetInstructions}
+          </Text>
+
+          <View style={styles.formContainer}>
+            <TextInput
+              style={[styles.input, errors.email ? styles.inputError : null]}
+              placeholder={strings.auth.email}
+              value={email}
+              onChangeText={setEmail}
+              autoCapitalize="none"
+              keyboardType="email-address"
+              editable={!codeSent}
+            />
+            {errors.email && <Text style={styles.errorText}>{errors.email}</Text>}
+
+            {codeSent && (
+              <>
+                <TextInput
+                  style={[styles.input, errors.code ? styles.inputError : null]}
+                  placeholder={strings.auth.resetCode}
+                  value={code}
+                  onChangeText={setCode}
+                  autoCapitalize="none"
+                  keyboardType="number-pad"
+                />
+                {errors.code && <Text style={styles.errorText}>{errors.code}</Text>}
+
+                <TextInput
+                  style={[styles.input, errors.password ? styles.inputError : null]}
+                  placeholder={strings.auth.newPassword}
+                  value={password}
+                  onChangeText={setPassword}
+                  secureTextEntry
+                />
+                {errors.password && <Text style={styles.errorText}>{errors.password}</Text>}
+
+                <TextInput
+                  style={[styles.input, errors.confirmPassword ? styles.inputError : null]}
+                  placeholder={strings.auth.confirmPassword}
+                  value={confirmPassword}
+                  onChangeText={setConfirmPassword}
+                  secureTextEntry
+                />
+                {errors.confirmPassword && (
+                  <Text style={styles.errorText}>{errors.confirmPassword}</Text>
+                )}
+              </>
+            )}
+
+            {errors.general && <Text style={styles.errorText}>{errors.general}</Text>}
+
+            <TouchableOpacity
+              style={styles.submitButton}
+              onPress={codeSent ? handleResetPassword : handleSendCode}
+              disabled={isLoading}
+            >
+              {isLoading ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={styles.submitButtonText}>
+                  {codeSent ? strings.auth.resetPassword : strings.auth.sendResetCode}
+                </Text>
+              )}
+            </TouchableOpacity>
+
+            {codeSent && (
+              <TouchableOpacity
+                style={styles.linkButton}
+                onPress={handleSendCode}
+                disabled={isLoading}
+              >
+                <Text style={styles.linkText}>{strings.auth.resendCode}</Text>
+              </TouchableOpacity>
+            )}
+
+            <TouchableOpacity style={styles.linkButton} onPress={() => router.back()}>
+              <Text style={styles.linkText}>{strings.auth.backToLogin}</Text>
+            </TouchableOpacity>
+          </View>
+        </SafeAreaView>
+      </TouchableWithoutFeedback>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  innerContainer: {
+    flex: 1,
+    padding: theme.spacing.l,
+    justifyContent: 'center',
+  },
+  title: {
+    fontSize: theme.typography.fontSize.xxl,
+    fontWeight: 'bold',
+    color: theme.colors.text,
+    marginBottom: theme.spacing.m,
+    textAlign: 'center',
+  },
+  instructions: {
+    color: theme.colors.textSecondary,
+    fontSize: theme.typography.fontSize.m,
+    marginBottom: theme.spacing.xl,
+    textAlign: 'center',
+  },
+  formContainer: {
+    width: '100%',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.m,
+    padding: theme.spacing.m,
+    marginBottom: theme.spacing.m,
+    backgroundColor: theme.colors.surface,
+  },
+  inputError: {
+    borderColor: theme.colors.error,
+  },
+  errorText: {
+    color: theme.colors.error,
+    marginBottom: theme.spacing.s,
+    fontSize: theme.typography.fontSize.s,
+  },
+  submitButton: {
+    backgroundColor: theme.colors.primary,
+    paddingVertical: theme.spacing.m,
+    borderRadius: theme.borderRadius.m,
+    alignItems: 'center',
+    marginTop: theme.spacing.m,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+    fontSize: theme.typography.fontSize.m,
+  },
+  linkButton: {
+    alignItems: 'center',
+    marginTop: theme.spacing.l,
+  },
+  linkText: {
+    color: theme.colors.primary,
+    fontSize: theme.typography.fontSize.s,
+  },
+});
@@ -19,7 +19,7 @@ import { Link, useRouter } from 'expo-router';
 import { ActionTypes, useAppContext } from '../context/AppContext';
 import { theme } from '../constants/Theme';
 import { strings } from '../utils/strings';
-import { loginUser, loginAsGuest } from '../services/api';
+import { ApiError, loginUser, loginAsGuest } from '../services/api';
 
 export default function LoginScreen() {
   const { dispatch } = useAppContext();
@@ -72,7 +72,11 @@ export default function LoginScreen() {
       router.replace('/(tabs)');
     } catch (error) {
       console.error('Login error:', error);
-      setErrors({ general: 'Invalid email or password' });
+      setErrors({
+        general: error instanceof ApiError && error.status !== 401
+          ? error.message
+          : strings.auth.invalidCredentials,
+      });
     } finally {
       setIsLoading(false);
     }
@@ -160,9 +164,11 @@ export default function LoginScreen() {
               <Text style={styles.guestButtonText}>Continue as Guest</Text>
             </TouchableOpacity>
 
-            <TouchableOpacity style={styles.forgotPassword}>
-              <Text style={styles.forgotPasswordText}>{strings.auth.forgotPassword}</Text>
-            </TouchableOpacity>
+            <Link href="/(auth)/forgot-password" asChild>
+              <TouchableOpacity style={styles.forgotPassword}>
+                <Text style={styles.forgotPasswordText}>{strings.auth.forgotPassword}</Text>
+              </TouchableOpacity>
+            </Link>
 
             <View style={styles.registerContainer}>
               <Text style={styles.registerText}>{strings.auth.noAccount}</Text>
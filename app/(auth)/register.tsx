@@ -18,7 +18,7 @@ import { Link, useRouter } from 'expo-router';
 import { ActionTypes, useAppContext } from '../context/AppContext';
 import { theme } from '../constants/Theme';
 import { strings } from '../utils/strings';
-import { registerUser } from '../services/api';
+import { ApiError, registerUser } from '../services/api';
 
 export default function RegisterScreen() {
   const { dispatch } = useAppContext();
@@ -94,7 +94,11 @@ export default function RegisterScreen() {
       router.replace('/(tabs)');
     } catch (error) {
       console.error('Registration error:', error);
-      setErrors({ general: 'Registration failed. Please try again.' });
+      setErrors({
+        general: error instanceof ApiError
+          ? error.message
+          : 'Registration failed. Please try again.',
+      });
     } finally {
       setIsLoading(false);
     }
@@ -10,27 +10,80 @@ import {
   Share,
   useWindowDimensions,
   Platform,
+  Switch,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { Audio } from 'expo-av';
 
-import { useAppContext } from '../context/AppContext';
 import { theme } from '../constants/Theme';
 import { strings } from '../utils/strings';
-import { analyzeRecording, getRecordings, deleteRecording } from '../services/audioService';
-import { Recording, AnalysisResult } from '../context/AppContext';
+import { analyzeRecording, generateSpectrogramData } from '../services/audioService';
+import { getRecordingById, updateRecording, deleteRecording } from '@/utils/storage';
+import { preparePlayback } from '@/utils/audio';
+import { Recording, AnalysisResult } from '@/types/recording';
+import { Spectrogram } from '@/utils/spectrogram';
+import { SpectrogramView, SpectrogramRegion, SpectrogramMarker } from '@/components/SpectrogramView';
+import { BreathPhase, formatIERatio } from '@/utils/breathPhases';
+import { CrackleCounts } from '@/utils/crackleDetection';
+import { AppliedFilter, FilterChainOptions, FilterName, DEFAULT_FILTER_CHAIN } from '@/utils/filters';
+
+// Overlay colours for breath phases and adventitious sounds on the spectrogram
+const PHASE_COLORS = {
+  inspiration: theme.colors.secondary,
+  expiration: theme.colors.primary,
+};
+const WHEEZE_COLOR = theme.colors.warning;
+const CRACKLE_COLORS = {
+  fine: theme.colors.error,
+  coarse: theme.colors.primaryDark,
+};
+
+// Coverage fraction as a percentage label
+const formatCoverage = (fraction: number | null) =>
+  fraction === null ? '-' : `${Math.round(fraction * 100)}%`;
+
+const FILTER_NAMES: FilterName[] = ['dcRemoval', 'notch', 'bandPass', 'noiseReduction', 'heartSuppression'];
+
+// Short description of an applied filter, e.g. "Band-pass 100–2000 Hz"
+const formatFilter = (filter: AppliedFilter) => {
+  const label = strings.analyze.filterNames[filter.name];
+  switch (filter.name) {
+    case 'notch':
+      return `${label} ${filter.params.frequency} Hz ×${filter.params.harmonics}`;
+    case 'bandPass':
+      return `${label} ${filter.params.low}–${Math.round(filter.params.high)} Hz`;
+    default:
+      return label;
+  }
+};
+
+// Per-phase crackle counts, e.g. "Inspiration: 2 fine, 0 coarse · Expiration: ..."
+const formatCrackleCounts = (byPhase: Record<BreathPhase['type'], CrackleCounts>) =>
+  (['inspiration', 'expiration'] as const)
+    .map(type => `${strings.analyze[type]}: ${byPhase[type].fine} ${strings.analyze.fine}, ${byPhase[type].coarse} ${strings.analyze.coarse}`)
+    .join(' · ');
 
 // Spectrogram component with TypeScript
 interface SpectrogramRendererProps {
-  data?: number[];
+  spectrogram?: Spectrogram | null;
   isLoading?: boolean;
+  playbackPosition?: number;
+  regions?: SpectrogramRegion[];
+  markers?: SpectrogramMarker[];
 }
 
-const SpectrogramRenderer: React.FC<SpectrogramRendererProps> = ({ data, isLoading }) => {
+const SpectrogramRenderer: React.FC<SpectrogramRendererProps> = ({
+  spectrogram,
+  isLoading,
+  playbackPosition,
+  regions,
+  markers,
+}) => {
   const { width } = useWindowDimensions();
-  const canvasWidth = width - theme.spacing.l * 2;
+  // Screen padding plus card padding on both sides
+  const canvasWidth = width - theme.spacing.l * 4;
   const canvasHeight = 150;
   
   if (isLoading) {
@@ -41,7 +94,7 @@ const SpectrogramRenderer: React.FC<SpectrogramRendererProps> = ({ data, isLoadi
     );
   }
   
-  if (!data || data.length === 0) {
+  if (!spectrogram || spectrogram.frames === 0 || spectrogram.bins === 0) {
     return (
       <View style={[styles.spectrogram, { width: canvasWidth, height: canvasHeight }]}>
         <Text style={styles.noDataText}>{strings.analyze.noSpectrogramData}</Text>
@@ -49,28 +102,19 @@ const SpectrogramRenderer: React.FC<SpectrogramRendererProps> = ({ data, isLoadi
     );
   }
   
-  // Render mock spectrogram - in a real app this would use Canvas or WebGL
   return (
-    <View style={[styles.spectrogram, { width: canvasWidth, height: canvasHeight }]}>
-      <View style={styles.spectrogramContent}>
-        {data.map((value, index) => (
-          <View 
-            key={index}
-            style={{
-              width: 3,
-              height: Math.max(3, value * canvasHeight / 255),
-              backgroundColor: theme.colors.spectrogram[Math.floor(value * theme.colors.spectrogram.length / 255)] || '#00a0dc',
-              marginHorizontal: 1,
-            }}
-          />
-        ))}
-      </View>
-    </View>
+    <SpectrogramView
+      spectrogram={spectrogram}
+      width={canvasWidth}
+      height={canvasHeight}
+      playbackPosition={playbackPosition}
+      regions={regions}
+      markers={markers}
+    />
   );
 };
 
 export default function AnalyzeScreen() {
-  const { state, dispatch } = useAppContext();
   const router = useRouter();
   const params = useLocalSearchParams();
   const recordingId = params.recordingId as string;
@@ -80,8 +124,17 @@ export default function AnalyzeScreen() {
   const [isPlaying, setIsPlaying] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [sound, setSound] = useState<Audio.Sound | null>(null);
+  const soundReleased = useRef<Promise<unknown>>(Promise.resolve());
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
-  const [spectrogramData, setSpectrogramData] = useState<number[]>([]);
+  const [spectrogram, setSpectrogram] = useState<Spectrogram | null>(null);
+  const [playbackPosition, setPlaybackPosition] = useState(0);
+  const [filterOptions, setFilterOptions] = useState<FilterChainOptions>({
+    dcRemoval: DEFAULT_FILTER_CHAIN.dcRemoval,
+    notch: DEFAULT_FILTER_CHAIN.notch,
+    bandPass: DEFAULT_FILTER_CHAIN.bandPass,
+    noiseReduction: DEFAULT_FILTER_CHAIN.noiseReduction,
+    heartSuppression: DEFAULT_FILTER_CHAIN.heartSuppression,
+  });
   
   // Load recording data
   useEffect(() => {
@@ -94,32 +147,19 @@ export default function AnalyzeScreen() {
       try {
         setIsLoading(true);
         
-        // Try to find recording in state first
-        const stateRecording = state.recordings.find(r => r.id === recordingId);
+        const loadedRecording = await getRecordingById(recordingId);
         
-        if (stateRecording) {
-          setRecording(stateRecording as Recording);
-          if (stateRecording.analysis) {
-            setAnalysisResult(stateRecording.analysis);
-            setSpectrogramData(stateRecording.spectrogramData || generateMockSpectrogramData());
+        if (loadedRecording) {
+          setRecording(loadedRecording);
+          if (loadedRecording.analysisResult) {
+            setAnalysisResult(loadedRecording.analysisResult);
+            setSpectrogram(await loadSpectrogram(loadedRecording.id, loadedRecording.uri));
           }
         } else {
-          // If not in state, try to load from storage
-          const recordings = await getRecordings();
-          const loadedRecording = recordings.find(r => r.id === recordingId);
-          
-          if (loadedRecording) {
-            setRecording(loadedRecording as Recording);
-            if (loadedRecording.analysis) {
-              setAnalysisResult(loadedRecording.analysis);
-              setSpectrogramData(loadedRecording.spectrogramData || generateMockSpectrogramData());
-            }
-          } else {
-            // If still not found, go back to home
-            Alert.alert(strings.analyze.recordingNotFound);
-            router.replace('/(tabs)');
-            return;
-          }
+          // If not found, go back to home
+          Alert.alert(strings.analyze.recordingNotFound);
+          router.replace('/(tabs)');
+          return;
         }
       } catch (error) {
         console.error('Error loading recording:', error);
@@ -130,58 +170,61 @@ export default function AnalyzeScreen() {
     };
     
     fetchRecording();
-    
-    // Clean up
-    return () => {
-      unloadSound();
-    };
   }, [recordingId]);
   
-  // Generate mock spectrogram data
-  const generateMockSpectrogramData = () => {
-    const data: number[] = [];
-    for (let i = 0; i < 100; i++) {
-      // Create a pattern that looks like audio waves
-      data.push(Math.abs(Math.sin(i / 5) * 200 + Math.random() * 55));
+  // Load the cached spectrogram (computed on first access); failures leave it empty
+  const loadSpectrogram = async (id: string, uri: string): Promise<Spectrogram | null> => {
+    try {
+      return await generateSpectrogramData(id, uri);
+    } catch (error) {
+      console.error('Error generating spectrogram:', error);
+      return null;
     }
-    return data;
   };
   
-  // Load sound object
+  // Load sound object; reloaded only when the audio itself changes
+  const audioUri = recording?.uri;
   useEffect(() => {
-    const loadSound = async () => {
-      if (recording?.uri) {
+    let cancelled = false;
+    const loadSound = async (): Promise<Audio.Sound | null> => {
+      // Preparing playback deletes the previous decrypted copy, so the old sound must be gone
+      await soundReleased.current;
+      if (audioUri && !cancelled) {
         try {
           const { sound: newSound } = await Audio.Sound.createAsync(
-            { uri: recording.uri },
-            { shouldPlay: false }
+            { uri: await preparePlayback(audioUri) },
+            { shouldPlay: false, progressUpdateIntervalMillis: 100 }
           );
+          if (cancelled) return newSound;
           setSound(newSound);
           
           // Add status update listener
           newSound.setOnPlaybackStatusUpdate(status => {
-            if (status.isLoaded && !status.isPlaying && status.didJustFinish) {
+            if (!status.isLoaded) return;
+            setPlaybackPosition(status.positionMillis / 1000);
+            if (!status.isPlaying && status.didJustFinish) {
               setIsPlaying(false);
             }
           });
+          return newSound;
         } catch (error) {
           console.error('Error loading sound:', error);
         }
       }
+      return null;
     };
-    
-    loadSound();
-  }, [recording]);
-  
-  // Unload sound when component unmounts
-  const unloadSound = async () => {
-    if (sound) {
-      await sound.stopAsync();
-      await sound.unloadAsync();
+
+    const loading = loadSound();
+    // Unload on unmount or before the next recording's sound is loaded
+    return () => {
+      cancelled = true;
       setSound(null);
       setIsPlaying(false);
-    }
-  };
+      soundReleased.current = loading
+        .then(loaded => loaded?.unloadAsync())
+        .catch(error => console.error('Error unloading sound:', error));
+    };
+  }, [audioUri]);
   
   // Handle play/pause
   const togglePlayback = async () => {
@@ -207,30 +250,20 @@ export default function AnalyzeScreen() {
       setIsAnalyzing(true);
       
       // Perform the analysis
-      const result = await analyzeRecording(recording.uri);
+      const result = await analyzeRecording(recording.uri, recording.type, filterOptions);
       
       if (result) {
-        // Generate spectrogram data - in a real app this would be returned from the analysis
-        const spectrogramData = generateMockSpectrogramData();
-        
-        // Update recording with analysis results
-        const updatedRecording = {
-          ...recording,
-          analyzed: true,
-          analysis: result,
-          spectrogramData,
-        };
+        // Compute (or reuse the cached) spectrogram for the recording
+        const computedSpectrogram = await loadSpectrogram(recording.id, recording.uri);
         
-        // Update context state
-        dispatch({ 
-          type: 'UPDATE_RECORDING',
-          payload: updatedRecording
-        });
+        // Persist the analysis results with the recording
+        const updates = { analyzed: true, analysisResult: result };
+        await updateRecording(recording.id, updates);
         
         // Update local state
         setAnalysisResult(result);
-        setSpectrogramData(spectrogramData);
-        setRecording(updatedRecording as Recording);
+        setSpectrogram(computedSpectrogram);
+        setRecording({ ...recording, ...updates });
       }
     } catch (error) {
       console.error('Error analyzing recording:', error);
@@ -248,7 +281,7 @@ export default function AnalyzeScreen() {
       const message = `
         ${strings.analyze.shareMessage}
         
-        ${strings.analyze.recordingDate}: ${new Date(recording.date).toLocaleDateString()}
+        ${strings.analyze.recordingDate}: ${new Date(recording.createdAt).toLocaleDateString()}
         ${strings.analyze.duration}: ${recording.duration.toFixed(1)} ${strings.analyze.seconds}
         
         ${strings.analyze.respiratoryRate}: ${analysisResult.respiratoryRate} ${strings.analyze.breathsPerMinute}
@@ -285,7 +318,6 @@ export default function AnalyzeScreen() {
           onPress: async () => {
             try {
               await deleteRecording(recording.id);
-              dispatch({ type: 'DELETE_RECORDING', payload: recording.id });
               router.replace('/(tabs)');
             } catch (error) {
               console.error('Error deleting recording:', error);
@@ -297,10 +329,26 @@ export default function AnalyzeScreen() {
     );
   };
   
+  // Breath phases drawn over the spectrogram
+  const phaseRegions: SpectrogramRegion[] = (analysisResult?.phases ?? []).map(phase => ({
+    start: phase.start,
+    end: phase.end,
+    color: PHASE_COLORS[phase.type],
+  }));
+  const wheezeRegions: SpectrogramRegion[] = (analysisResult?.wheezes?.wheezes ?? []).map(wheeze => ({
+    start: wheeze.start,
+    end: wheeze.end,
+    color: WHEEZE_COLOR,
+  }));
+  const crackleMarkers: SpectrogramMarker[] = (analysisResult?.crackles?.crackles ?? []).map(crackle => ({
+    time: crackle.time,
+    color: CRACKLE_COLORS[crackle.type],
+  }));
+  
   // Format date for display
   const getFormattedDate = () => {
     if (!recording) return '';
-    const date = new Date(recording.date);
+    const date = new Date(recording.createdAt);
     return date.toLocaleDateString(undefined, { 
       year: 'numeric', 
       month: 'long', 
@@ -379,16 +427,42 @@ export default function AnalyzeScreen() {
           {/* Spectrogram */}
           <Text style={styles.sectionTitle}>{strings.analyze.spectrogram}</Text>
           <SpectrogramRenderer 
-            data={spectrogramData} 
+            spectrogram={spectrogram} 
             isLoading={isAnalyzing}
+            playbackPosition={playbackPosition}
+            regions={[...phaseRegions, ...wheezeRegions]}
+            markers={crackleMarkers}
           />
           
+          {(phaseRegions.length > 0 || wheezeRegions.length > 0 || crackleMarkers.length > 0) && (
+            <View style={styles.legendRow}>
+              {phaseRegions.length > 0 && (['inspiration', 'expiration'] as const).map(type => (
+                <View key={type} style={styles.legendItem}>
+                  <View style={[styles.legendSwatch, { backgroundColor: PHASE_COLORS[type] }]} />
+                  <Text style={styles.legendText}>{strings.analyze[type]}</Text>
+                </View>
+              ))}
+              {wheezeRegions.length > 0 && (
+                <View style={styles.legendItem}>
+                  <View style={[styles.legendSwatch, { backgroundColor: WHEEZE_COLOR }]} />
+                  <Text style={styles.legendText}>{strings.analyze.wheeze}</Text>
+                </View>
+              )}
+              {crackleMarkers.length > 0 && (['fine', 'coarse'] as const).map(type => (
+                <View key={type} style={styles.legendItem}>
+                  <View style={[styles.legendSwatch, { backgroundColor: CRACKLE_COLORS[type] }]} />
+                  <Text style={styles.legendText}>{strings.analyze[`${type}Crackle`]}</Text>
+                </View>
+              ))}
+            </View>
+          )}
+          
           {analysisResult ? (
             <>
               {/* Results */}
               <View style={styles.resultsContainer}>
                 <View style={styles.resultBox}>
-                  <Text style={styles.resultValue}>{analysisResult.respiratoryRate}</Text>
+                  <Text style={styles.resultValue}>{analysisResult.respiratoryRate ?? '-'}</Text>
                   <Text style={styles.resultLabel}>{strings.analyze.breathsPerMinute}</Text>
                 </View>
                 
@@ -410,6 +484,120 @@ export default function AnalyzeScreen() {
                 </View>
               </View>
               
+              {/* Breath phases */}
+              {analysisResult.ieRatio !== undefined && (
+                <>
+                  <Text style={styles.analysisTitle}>{strings.analyze.breathPhases}</Text>
+                  <View style={styles.resultsContainer}>
+                    <View style={styles.resultBox}>
+                      <Text style={styles.resultValue}>
+                        {analysisResult.meanInspirationDuration?.toFixed(1) ?? '-'}s
+                      </Text>
+                      <Text style={styles.resultLabel}>{strings.analyze.meanInspiration}</Text>
+                    </View>
+                    
+                    <View style={styles.resultBox}>
+                      <Text style={styles.resultValue}>
+                        {analysisResult.meanExpirationDuration?.toFixed(1) ?? '-'}s
+                      </Text>
+                      <Text style={styles.resultLabel}>{strings.analyze.meanExpiration}</Text>
+                    </View>
+                    
+                    <View style={styles.resultBox}>
+                      <Text style={[
+                        styles.resultValue,
+                        analysisResult.prolongedExpiration && { color: theme.colors.warning }
+                      ]}>
+                        {formatIERatio(analysisResult.ieRatio)}
+                      </Text>
+                      <Text style={styles.resultLabel}>{strings.analyze.ieRatio}</Text>
+                    </View>
+                  </View>
+                </>
+              )}
+              
+              {/* Heart rate found while removing heart sounds */}
+              {analysisResult.heartRate !== undefined && (
+                <>
+                  <Text style={styles.analysisTitle}>{strings.analyze.heartRate}</Text>
+                  <Text style={styles.analysisText}>
+                    {analysisResult.heartRate} {strings.analyze.beatsPerMinute}
+                  </Text>
+                </>
+              )}
+              
+              {/* Wheezes */}
+              {analysisResult.wheezes && (
+                <>
+                  <Text style={styles.analysisTitle}>{strings.analyze.wheezes}</Text>
+                  <View style={styles.resultsContainer}>
+                    <View style={styles.resultBox}>
+                      <Text style={[
+                        styles.resultValue,
+                        analysisResult.wheezes.count > 0 && { color: theme.colors.warning }
+                      ]}>
+                        {analysisResult.wheezes.count}
+                      </Text>
+                      <Text style={styles.resultLabel}>{strings.analyze.wheezesDetected}</Text>
+                    </View>
+                    
+                    <View style={styles.resultBox}>
+                      <Text style={styles.resultValue}>
+                        {formatCoverage(analysisResult.wheezes.inspirationCoverage)}
+                      </Text>
+                      <Text style={styles.resultLabel}>{strings.analyze.inspiratoryCoverage}</Text>
+                    </View>
+                    
+                    <View style={styles.resultBox}>
+                      <Text style={styles.resultValue}>
+                        {formatCoverage(analysisResult.wheezes.expirationCoverage)}
+                      </Text>
+                      <Text style={styles.resultLabel}>{strings.analyze.expiratoryCoverage}</Text>
+                    </View>
+                  </View>
+                  
+                  {analysisResult.wheezes.wheezes.map((wheeze, index) => (
+                    <Text key={index} style={styles.analysisText}>
+                      {`${wheeze.start.toFixed(2)}–${wheeze.end.toFixed(2)} ${strings.analyze.seconds} · ${wheeze.frequency} Hz`}
+                    </Text>
+                  ))}
+                </>
+              )}
+              
+              {/* Crackles */}
+              {analysisResult.crackles && (
+                <>
+                  <Text style={styles.analysisTitle}>{strings.analyze.crackles}</Text>
+                  <View style={styles.resultsContainer}>
+                    <View style={styles.resultBox}>
+                      <Text style={[
+                        styles.resultValue,
+                        analysisResult.crackles.fineCount > 0 && { color: theme.colors.warning }
+                      ]}>
+                        {analysisResult.crackles.fineCount}
+                      </Text>
+                      <Text style={styles.resultLabel}>{strings.analyze.fineCrackle}</Text>
+                    </View>
+                    
+                    <View style={styles.resultBox}>
+                      <Text style={[
+                        styles.resultValue,
+                        analysisResult.crackles.coarseCount > 0 && { color: theme.colors.warning }
+                      ]}>
+                        {analysisResult.crackles.coarseCount}
+                      </Text>
+                      <Text style={styles.resultLabel}>{strings.analyze.coarseCrackle}</Text>
+                    </View>
+                  </View>
+                  
+                  {analysisResult.crackles.byPhase && (
+                    <Text style={styles.analysisText}>
+                      {formatCrackleCounts(analysisResult.crackles.byPhase)}
+                    </Text>
+                  )}
+                </>
+              )}
+              
               {/* Analysis details */}
               <View style={styles.analysisDetails}>
                 <Text style={styles.analysisTitle}>{strings.analyze.interpretation}</Text>
@@ -417,6 +605,17 @@ export default function AnalyzeScreen() {
                 
                 <Text style={styles.analysisTitle}>{strings.analyze.recommendations}</Text>
                 <Text style={styles.analysisText}>{analysisResult.recommendations}</Text>
+                
+                {analysisResult.filters && (
+                  <>
+                    <Text style={styles.analysisTitle}>{strings.analyze.filters}</Text>
+                    <Text style={styles.analysisText}>
+                      {analysisResult.filters.length > 0
+                        ? analysisResult.filters.map(formatFilter).join(', ')
+                        : strings.analyze.noFilters}
+                    </Text>
+                  </>
+                )}
               </View>
               
               {/* Share button */}
@@ -426,21 +625,37 @@ export default function AnalyzeScreen() {
               </TouchableOpacity>
             </>
           ) : (
-            /* Analyze button */
-            <TouchableOpacity 
-              style={styles.analyzeButton}
-              onPress={handleAnalyze}
-              disabled={isAnalyzing}
-            >
-              {isAnalyzing ? (
-                <ActivityIndicator color="#fff" />
-              ) : (
-                <>
-                  <Ionicons name="analytics-outline" size={20} color="#fff" />
-                  <Text style={styles.analyzeButtonText}>{strings.analyze.analyze}</Text>
-                </>
-              )}
-            </TouchableOpacity>
+            <>
+              {/* Pre-processing filters for this run */}
+              <Text style={styles.analysisTitle}>{strings.analyze.filters}</Text>
+              {FILTER_NAMES.map(name => (
+                <View key={name} style={styles.filterRow}>
+                  <Text style={styles.filterLabel}>{strings.analyze.filterNames[name]}</Text>
+                  <Switch
+                    value={!!filterOptions[name]}
+                    onValueChange={value => setFilterOptions(prev => ({ ...prev, [name]: value }))}
+                    disabled={isAnalyzing}
+                    trackColor={{ false: theme.colors.inactive, true: theme.colors.primary }}
+                  />
+                </View>
+              ))}
+              
+              {/* Analyze button */}
+              <TouchableOpacity 
+                style={styles.analyzeButton}
+                onPress={handleAnalyze}
+                disabled={isAnalyzing}
+              >
+                {isAnalyzing ? (
+                  <ActivityIndicator color="#fff" />
+                ) : (
+                  <>
+                    <Ionicons name="analytics-outline" size={20} color="#fff" />
+                    <Text style={styles.analyzeButtonText}>{strings.analyze.analyze}</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            </>
           )}
         </View>
         
@@ -544,12 +759,25 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
-  spectrogramContent: {
+  legendRow: {
     flexDirection: 'row',
-    alignItems: 'flex-end',
-    height: '100%',
-    width: '100%',
-    paddingBottom: 10,
+    justifyContent: 'center',
+    marginTop: theme.spacing.s,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: theme.spacing.s,
+  },
+  legendSwatch: {
+    width: 12,
+    height: 12,
+    borderRadius: theme.borderRadius.s,
+    marginRight: theme.spacing.xs,
+  },
+  legendText: {
+    fontSize: theme.typography.fontSize.s,
+    color: theme.colors.textSecondary,
   },
   noDataText: {
     fontSize: theme.typography.fontSize.m,
@@ -597,6 +825,16 @@ const styles = StyleSheet.create({
   analysisDetails: {
     marginTop: theme.spacing.l,
   },
+  filterRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: theme.spacing.xs,
+  },
+  filterLabel: {
+    fontSize: theme.typography.fontSize.m,
+    color: theme.colors.text,
+  },
   analysisTitle: {
     fontSize: theme.typography.fontSize.m,
     fontWeight: '500',
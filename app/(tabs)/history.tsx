@@ -16,9 +16,49 @@ import { Audio } from 'expo-av';
 
 import { Colors } from '@/constants/Colors';
 import { useColorScheme } from '@/hooks/useColorScheme';
-import { getRecordings, deleteRecording } from '@/utils/storage';
+import { queryRecordings, deleteRecording, getSessions, createSession } from '@/utils/storage';
 import { playRecording } from '@/utils/audio';
-import { Recording } from '@/types/recording';
+import { Recording, Session } from '@/types/recording';
+import { formatCoughCount } from '@/utils/coughDetection';
+import { getSiteLabel } from '@/utils/auscultation';
+import { pickAudioFiles, importAudioFiles } from '@/utils/audioImport';
+
+const PAGE_SIZE = 30;
+
+type HistoryEntry =
+  | { kind: 'recording'; recording: Recording }
+  | { kind: 'session'; sessionId: string; recordings: Recording[] };
+
+// Collapse recordings from the same session into one entry, in recording order.
+// Sessions without recordings yet are listed first so they can be picked up again.
+function groupBySession(recordings: Recording[], emptySessions: Session[]): HistoryEntry[] {
+  const entries: HistoryEntry[] = emptySessions.map(session => ({
+    kind: 'session',
+    sessionId: session.id,
+    recordings: [],
+  }));
+  const sessions = new Map<string, Recording[]>();
+
+  for (const recording of recordings) {
+    if (!recording.sessionId) {
+      entries.push({ kind: 'recording', recording });
+      continue;
+    }
+    const members = sessions.get(recording.sessionId);
+    if (members) {
+      members.push(recording);
+    } else {
+      const created = [recording];
+      sessions.set(recording.sessionId, created);
+      entries.push({ kind: 'session', sessionId: recording.sessionId, recordings: created });
+    }
+  }
+
+  for (const members of sessions.values()) {
+    members.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+  return entries;
+}
 
 export default function HistoryScreen() {
   const colorScheme = useColorScheme();
@@ -26,16 +66,38 @@ export default function HistoryScreen() {
   const colors = Colors[colorScheme ?? 'light'];
 
   const [recordings, setRecordings] = useState<Recording[]>([]);
+  const [sessions, setSessions] = useState<Session[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [playingId, setPlayingId] = useState<string | null>(null);
   const [sound, setSound] = useState<Audio.Sound | null>(null);
   const [filterType, setFilterType] = useState<'all' | 'cough' | 'breath'>('all');
+  const [hasMore, setHasMore] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+  const loadRecordings = useCallback(async (type: 'all' | 'cough' | 'breath') => {
+    try {
+      const [page, allSessions] = await Promise.all([
+        queryRecordings({ type: type === 'all' ? undefined : type, limit: PAGE_SIZE }),
+        getSessions(),
+      ]);
+      setRecordings(page.recordings);
+      setHasMore(page.hasMore);
+      setSessions(allSessions);
+    } catch (error) {
+      console.error('Error loading recordings:', error);
+      Alert.alert('Error', 'Failed to load recordings');
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  }, []);
 
   useFocusEffect(
     useCallback(() => {
-      loadRecordings();
-    }, [])
+      loadRecordings(filterType);
+    }, [filterType, loadRecordings])
   );
 
   useEffect(() => {
@@ -46,28 +108,73 @@ export default function HistoryScreen() {
     };
   }, [sound]);
 
-  const loadRecordings = async () => {
+  const handleNewSession = async () => {
     try {
-      const allRecordings = await getRecordings();
-      setRecordings(allRecordings);
+      const session = await createSession();
+      router.push(`/session/${session.id}`);
     } catch (error) {
-      console.error('Error loading recordings:', error);
-      Alert.alert('Error', 'Failed to load recordings');
+      console.error('Error creating session:', error);
+      Alert.alert('Error', 'Failed to create session');
+    }
+  };
+
+  const importFiles = async (type: Recording['type']) => {
+    try {
+      const files = await pickAudioFiles();
+      if (files.length === 0) return;
+
+      setIsImporting(true);
+      const { imported, failed } = await importAudioFiles(files, { type });
+      const lines = [`${imported.length} of ${files.length} files imported.`];
+      for (const failure of failed) {
+        lines.push(`${failure.name}: ${failure.error}`);
+      }
+      Alert.alert(failed.length > 0 ? 'Import Incomplete' : 'Import Complete', lines.join('\n'));
+      loadRecordings(filterType);
+    } catch (error) {
+      console.error('Error importing files:', error);
+      Alert.alert('Error', 'Failed to import files');
     } finally {
-      setIsLoading(false);
-      setIsRefreshing(false);
+      setIsImporting(false);
+    }
+  };
+
+  const handleImport = () => {
+    Alert.alert('Import Audio', 'Import WAV, M4A or MP3 files as:', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Cough', onPress: () => importFiles('cough') },
+      { text: 'Breath', onPress: () => importFiles('breath') },
+    ]);
+  };
+
+  const handleLoadMore = async () => {
+    if (!hasMore || isLoadingMore) return;
+
+    try {
+      setIsLoadingMore(true);
+      const page = await queryRecordings({
+        type: filterType === 'all' ? undefined : filterType,
+        offset: recordings.length,
+        limit: PAGE_SIZE,
+      });
+      setRecordings(prev => [...prev, ...page.recordings]);
+      setHasMore(page.hasMore);
+    } catch (error) {
+      console.error('Error loading more recordings:', error);
+    } finally {
+      setIsLoadingMore(false);
     }
   };
 
   const handleRefresh = () => {
     setIsRefreshing(true);
-    loadRecordings();
+    loadRecordings(filterType);
   };
 
-  const filteredRecordings = recordings.filter(recording => {
-    if (filterType === 'all') return true;
-    return recording.type === filterType;
-  });
+  const entries = groupBySession(
+    recordings,
+    filterType === 'all' ? sessions.filter(session => session.recordingIds.length === 0) : []
+  );
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -189,6 +296,11 @@ export default function HistoryScreen() {
             <Text style={[styles.recordingDuration, { color: colors.icon }]}>
               Duration: {formatDuration(item.duration)}
             </Text>
+            {item.type === 'cough' && item.coughEvents && (
+              <Text style={[styles.recordingDuration, { color: colors.tint }]}>
+                {formatCoughCount(item.coughEvents.length)}
+              </Text>
+            )}
           </View>
         </View>
 
@@ -215,6 +327,63 @@ export default function HistoryScreen() {
     );
   };
 
+  const renderSessionItem = (sessionId: string, members: Recording[]) => {
+    const session = sessions.find(s => s.id === sessionId);
+
+    return (
+      <View style={[styles.recordingItem, { backgroundColor: colors.background }]}>
+        <TouchableOpacity
+          style={styles.recordingHeader}
+          onPress={() => router.push(`/session/${sessionId}`)}
+        >
+          <View style={[styles.recordingIcon, { backgroundColor: `${colors.tint}20` }]}>
+            <Ionicons name="body" size={24} color={colors.tint} />
+          </View>
+          <View style={styles.recordingInfo}>
+            <Text style={[styles.recordingTitle, { color: colors.text }]}>
+              {session?.patient || 'Session'}
+            </Text>
+            <Text style={[styles.recordingDate, { color: colors.icon }]}>
+              {formatDate(session?.createdAt ?? members[0].createdAt)}
+            </Text>
+            <Text style={[styles.recordingDuration, { color: colors.icon }]}>
+              {members.length} {members.length === 1 ? 'recording' : 'recordings'}
+            </Text>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color={colors.icon} />
+        </TouchableOpacity>
+
+        {members.map(member => (
+          <View key={member.id} style={styles.siteRow}>
+            <TouchableOpacity onPress={() => handlePlayRecording(member)}>
+              <Ionicons
+                name={playingId === member.id ? 'pause-circle' : 'play-circle'}
+                size={28}
+                color={colors.tint}
+              />
+            </TouchableOpacity>
+            <Text style={[styles.siteLabel, { color: colors.text }]}>
+              {member.site
+                ? getSiteLabel(member.site)
+                : member.type === 'cough' ? 'Cough' : 'Breath'}
+            </Text>
+            <Text style={[styles.recordingDuration, { color: colors.icon }]}>
+              {formatDuration(member.duration)}
+            </Text>
+            <TouchableOpacity style={styles.actionButton} onPress={() => handleDeleteRecording(member)}>
+              <Ionicons name="trash-outline" size={20} color="#FF6B6B" />
+            </TouchableOpacity>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  const renderEntry = ({ item }: { item: HistoryEntry }) =>
+    item.kind === 'session'
+      ? renderSessionItem(item.sessionId, item.recordings)
+      : renderRecordingItem({ item: item.recording });
+
   const renderEmptyState = () => (
     <View style={styles.emptyState}>
       <Ionicons name="medical-outline" size={64} color={colors.icon} />
@@ -238,6 +407,18 @@ export default function HistoryScreen() {
       {/* Header */}
       <View style={styles.header}>
         <Text style={[styles.title, { color: colors.text }]}>Recording History</Text>
+        <View style={styles.headerButtons}>
+          {isImporting ? (
+            <ActivityIndicator color={colors.tint} />
+          ) : (
+            <TouchableOpacity onPress={handleImport}>
+              <Ionicons name="download-outline" size={28} color={colors.tint} />
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity onPress={handleNewSession}>
+            <Ionicons name="add-circle-outline" size={28} color={colors.tint} />
+          </TouchableOpacity>
+        </View>
       </View>
 
       {/* Filters */}
@@ -252,11 +433,14 @@ export default function HistoryScreen() {
         <ActivityIndicator size="large" color={colors.tint} style={styles.loader} />
       ) : (
         <FlatList
-          data={filteredRecordings}
-          renderItem={renderRecordingItem}
-          keyExtractor={(item) => item.id}
+          data={entries}
+          renderItem={renderEntry}
+          keyExtractor={(item) => (item.kind === 'session' ? item.sessionId : item.recording.id)}
           contentContainerStyle={styles.listContent}
           ListEmptyComponent={renderEmptyState}
+          onEndReached={handleLoadMore}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={isLoadingMore ? <ActivityIndicator color={colors.tint} /> : null}
           refreshControl={
             <RefreshControl
               refreshing={isRefreshing}
@@ -275,6 +459,9 @@ const styles = StyleSheet.create({
     flex: 1,
   },
   header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
     paddingHorizontal: 20,
     paddingTop: 20,
     paddingBottom: 16,
@@ -283,6 +470,11 @@ const styles = StyleSheet.create({
     fontSize: 28,
     fontWeight: 'bold',
   },
+  headerButtons: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
   filterContainer: {
     flexDirection: 'row',
     paddingHorizontal: 20,
@@ -356,6 +548,18 @@ const styles = StyleSheet.create({
   actionButton: {
     padding: 8,
   },
+  siteRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderTopWidth: 1,
+    borderTopColor: '#E5E5E5',
+    paddingVertical: 6,
+  },
+  siteLabel: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 14,
+  },
   emptyState: {
     flex: 1,
     alignItems: 'center',
@@ -14,7 +14,7 @@ import { Ionicons } from '@expo/vector-icons';
 
 import { Colors } from '@/constants/Colors';
 import { useColorScheme } from '@/hooks/useColorScheme';
-import { getRecordings } from '@/utils/storage';
+import { queryRecordings } from '@/utils/storage';
 import { Recording } from '@/types/recording';
 
 export default function HomeScreen() {
@@ -31,8 +31,8 @@ export default function HomeScreen() {
 
   const loadRecentRecordings = async () => {
     try {
-      const recordings = await getRecordings();
-      setRecentRecordings(recordings.slice(0, 3)); // Show only 3 most recent
+      const { recordings } = await queryRecordings({ limit: 3 }); // Show only 3 most recent
+      setRecentRecordings(recordings);
     } catch (error) {
       console.error('Error loading recordings:', error);
     } finally {
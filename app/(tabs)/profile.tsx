@@ -15,6 +15,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { useAppContext } from '../context/AppContext';
 import { theme } from '../constants/Theme';
 import { strings } from '../utils/strings';
+import { logoutUser } from '../services/api';
 
 export default function ProfileScreen() {
   const { state, dispatch } = useAppContext();
@@ -45,11 +46,10 @@ export default function ProfileScreen() {
         },
         {
           text: "Confirm",
-          onPress: () => {
+          onPress: async () => {
+            await logoutUser();
             dispatch({ type: 'LOGOUT' });
-            // In a real implementation, we would navigate to the login screen
-            console.log("Navigate to Login screen");
-            Alert.alert("Logged out successfully. In a real app, you would be redirected to the login screen.");
+            router.replace('/(auth)/login');
           },
         },
       ]
@@ -7,6 +7,8 @@ import {
   ActivityIndicator,
   Alert,
   Animated,
+  ScrollView,
+  useWindowDimensions,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter, useLocalSearchParams } from 'expo-router';
@@ -16,14 +18,317 @@ import * as Haptics from 'expo-haptics';
 
 import { Colors } from '@/constants/Colors';
 import { useColorScheme } from '@/hooks/useColorScheme';
-import { startRecording, stopRecording, saveRecording } from '@/utils/audio';
+import { useSuspendAutoLock } from '@/hooks/useAppLock';
+import {
+  startRecording,
+  stopRecording,
+  saveRecording,
+  checkRecordingQuality,
+  discardRecording,
+} from '@/utils/audio';
+import { RecordingQuality } from '@/utils/recordingQuality';
 import { WaveformMeter } from '@/components/WaveformMeter';
+import { BodyMap } from '@/components/BodyMap';
+import { strings } from '@/app/utils/strings';
+import { createSession, getProtocolConfig, saveProtocolConfig } from '@/utils/storage';
+import {
+  AuscultationSite,
+  ProtocolConfig,
+  DEFAULT_PROTOCOL,
+  POSITIONING_SECONDS,
+  SITE_DURATION_OPTIONS,
+  getSiteLabel,
+  toggleSite,
+} from '@/utils/auscultation';
+
+type QualityChoice = 'save' | 'rerecord' | 'discard';
+
+// Ask whether to keep a recording that didn't pass the quality check
+function promptQuality(quality: RecordingQuality): Promise<QualityChoice> {
+  const tooShort = quality.issues.some(
+    issue => issue.metric === 'duration' && issue.severity === 'fail'
+  );
+  const title = tooShort
+    ? strings.record.tooShort
+    : quality.verdict === 'fail' ? strings.record.qualityFailed : strings.record.qualityWarning;
+  const message = tooShort
+    ? strings.record.holdLonger
+    : quality.issues.map(issue => `• ${issue.message}`).join('\n');
+
+  return new Promise(resolve => {
+    Alert.alert(
+      title,
+      message,
+      [
+        ...(quality.verdict === 'fail'
+          ? [{ text: strings.record.discard, style: 'cancel' as const, onPress: () => resolve('discard') }]
+          : []),
+        // A recording too short to analyse isn't worth keeping
+        ...(!tooShort
+          ? [{ text: strings.record.saveAnyway, onPress: () => resolve('save') }]
+          : []),
+        { text: strings.record.reRecord, onPress: () => resolve('rerecord') },
+      ],
+      { cancelable: false }
+    );
+  });
+}
+
+type SessionPhase = 'setup' | 'positioning' | 'recording' | 'saving';
+
+interface GuidedSessionProps {
+  colors: typeof Colors.light;
+  onFinish: (savedCount: number) => void;
+}
+
+// Guided multi-site auscultation: walks through the protocol's sites, recording
+// each for a fixed time and saving the clips under one session id
+function GuidedSession({ colors, onFinish }: GuidedSessionProps) {
+  const { width } = useWindowDimensions();
+  const [config, setConfig] = useState<ProtocolConfig>(DEFAULT_PROTOCOL);
+  const [phase, setPhase] = useState<SessionPhase>('setup');
+  const [siteIndex, setSiteIndex] = useState(0);
+  const [countdown, setCountdown] = useState(0);
+  const [completedSites, setCompletedSites] = useState<AuscultationSite[]>([]);
+  const [metering, setMetering] = useState<number | undefined>(undefined);
+
+  const recording = useRef<Audio.Recording | null>(null);
+  const sessionId = useRef('');
+  const savedCount = useRef(0);
+  const onCountdownEnd = useRef<() => void>(() => {});
+
+  // The stethoscope is held in place without touching the screen, so don't lock mid-session
+  useSuspendAutoLock(phase !== 'setup');
+
+  useEffect(() => {
+    getProtocolConfig().then(setConfig);
+    return () => {
+      if (recording.current) {
+        recording.current.stopAndUnloadAsync();
+      }
+    };
+  }, []);
+
+  // Tick the per-site countdown; the phase handler runs when it reaches zero
+  useEffect(() => {
+    if (phase !== 'positioning' && phase !== 'recording') return;
+    if (countdown <= 0) {
+      onCountdownEnd.current();
+      return;
+    }
+    const timeout = setTimeout(() => setCountdown(prev => prev - 1), 1000);
+    return () => clearTimeout(timeout);
+  }, [phase, countdown]);
+
+  const currentSite = config.sites[siteIndex];
+
+  const beginPositioning = (index: number) => {
+    setSiteIndex(index);
+    setMetering(undefined);
+    setCountdown(POSITIONING_SECONDS);
+    setPhase('positioning');
+  };
+
+  const advance = (index: number) => {
+    if (index + 1 < config.sites.length) {
+      beginPositioning(index + 1);
+    } else {
+      setPhase('setup');
+      onFinish(savedCount.current);
+    }
+  };
+
+  const beginRecording = async () => {
+    try {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+      recording.current = await startRecording(status => {
+        if (status.isRecording) setMetering(status.metering);
+      });
+      if (!recording.current) {
+        throw new Error('Recording could not be started');
+      }
+      setCountdown(config.secondsPerSite);
+      setPhase('recording');
+    } catch (error) {
+      console.error('Failed to start site recording:', error);
+      Alert.alert('Error', 'Failed to start recording. Please check microphone permissions.');
+      setPhase('setup');
+    }
+  };
+
+  const finishSite = async (index: number) => {
+    if (!recording.current) return;
+    setPhase('saving');
+
+    try {
+      const result = await stopRecording(recording.current);
+      recording.current = null;
+      if (!result || !result.uri) {
+        advance(index);
+        return;
+      }
+
+      const site = config.sites[index];
+      const quality = await checkRecordingQuality(result.uri, result.duration, 'breath');
+      const choice = quality.verdict === 'pass' ? 'save' : await promptQuality(quality);
+
+      if (choice === 'save') {
+        // The session is created with its first clip, so a run that saves nothing leaves none behind
+        if (!sessionId.current) {
+          sessionId.current = (await createSession()).id;
+        }
+        const saved = await saveRecording({
+          id: `breath-${Date.now()}`,
+          uri: result.uri,
+          duration: result.duration,
+          type: 'breath',
+          createdAt: new Date().toISOString(),
+          quality,
+          site,
+          sessionId: sessionId.current,
+        });
+        if (saved) {
+          savedCount.current++;
+          setCompletedSites(prev => [...prev, site]);
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        }
+        advance(index);
+      } else {
+        await discardRecording(result.uri);
+        if (choice === 'rerecord') {
+          beginPositioning(index);
+        } else {
+          advance(index);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to save site recording:', error);
+      Alert.alert('Error', 'Failed to save recording. Please try again.');
+      setPhase('setup');
+    }
+  };
+
+  onCountdownEnd.current = () => {
+    if (phase === 'positioning') {
+      beginRecording();
+    } else if (phase === 'recording') {
+      finishSite(siteIndex);
+    }
+  };
+
+  const handleStart = async () => {
+    if (config.sites.length === 0) return;
+    await saveProtocolConfig(config);
+    sessionId.current = '';
+    savedCount.current = 0;
+    setCompletedSites([]);
+    beginPositioning(0);
+  };
+
+  const handleStop = async () => {
+    const active = recording.current;
+    recording.current = null;
+    setPhase('setup');
+    if (active) {
+      try {
+        const result = await stopRecording(active);
+        if (result?.uri) await discardRecording(result.uri);
+      } catch (error) {
+        console.error('Failed to stop site recording:', error);
+      }
+    }
+    if (savedCount.current > 0) {
+      onFinish(savedCount.current);
+    }
+  };
+
+  if (phase === 'setup') {
+    return (
+      <View style={styles.sessionContainer}>
+        <Text style={[styles.instructionsText, styles.sessionHint, { color: colors.text }]}>
+          Tap a site to include or skip it. Sites are recorded in the numbered order.
+        </Text>
+        <BodyMap
+          sites={config.sites}
+          completedSites={completedSites}
+          onPressSite={site => setConfig(prev => ({ ...prev, sites: toggleSite(prev.sites, site) }))}
+          width={width - 40}
+        />
+        <Text style={[styles.tipsTitle, styles.sessionLabel, { color: colors.text }]}>
+          Seconds per site
+        </Text>
+        <View style={styles.optionRow}>
+          {SITE_DURATION_OPTIONS.map(seconds => {
+            const selected = config.secondsPerSite === seconds;
+            return (
+              <TouchableOpacity
+                key={seconds}
+                style={[styles.optionButton, selected && { backgroundColor: colors.tint }]}
+                onPress={() => setConfig(prev => ({ ...prev, secondsPerSite: seconds }))}
+              >
+                <Text style={{ color: selected ? '#fff' : colors.text }}>{seconds}s</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        <TouchableOpacity
+          style={[styles.sessionButton, { backgroundColor: colors.tint }]}
+          onPress={handleStart}
+          disabled={config.sites.length === 0}
+        >
+          <Text style={styles.sessionButtonText}>
+            Start Session ({config.sites.length} sites)
+          </Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.sessionContainer}>
+      <Text style={[styles.sessionProgress, { color: colors.icon }]}>
+        Site {siteIndex + 1} of {config.sites.length}
+      </Text>
+      <Text style={[styles.title, { color: colors.text }]}>
+        {currentSite ? getSiteLabel(currentSite) : ''}
+      </Text>
+      <BodyMap
+        sites={config.sites}
+        activeSite={currentSite}
+        completedSites={completedSites}
+        width={width - 40}
+      />
+      <Text style={[styles.sessionProgress, { color: colors.icon }]}>
+        {phase === 'positioning'
+          ? 'Place the stethoscope and hold still'
+          : phase === 'recording' ? 'Recording, breathe deeply through your mouth' : 'Saving...'}
+      </Text>
+      <WaveformMeter
+        metering={metering}
+        isRecording={phase === 'recording'}
+        color={colors.tint}
+      />
+      <Text style={[styles.timerText, { color: colors.text }]}>
+        {phase === 'saving' ? '--' : countdown}
+      </Text>
+      <TouchableOpacity
+        style={[styles.sessionButton, styles.stopButton]}
+        onPress={handleStop}
+        disabled={phase === 'saving'}
+      >
+        <Text style={styles.sessionButtonText}>Stop Session</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
 
 export default function RecordScreen() {
   const colorScheme = useColorScheme();
   const router = useRouter();
   const params = useLocalSearchParams();
   const recordingType = (params.type as string) || 'cough';
+  // Set when recording into an existing session from its detail screen
+  const sessionId = params.sessionId as string | undefined;
 
   const colors = Colors[colorScheme ?? 'light'];
   
@@ -31,9 +336,12 @@ export default function RecordScreen() {
   const [isPaused, setIsPaused] = useState(false);
   const [recordingDuration, setRecordingDuration] = useState(0);
   const [isSaving, setIsSaving] = useState(false);
-  const [amplitude, setAmplitude] = useState(0);
+  const [metering, setMetering] = useState<number | undefined>(undefined);
+  const [isGuided, setIsGuided] = useState(false);
   
   const recording = useRef<Audio.Recording | null>(null);
+  // Locking would unmount this screen and lose the recording
+  useSuspendAutoLock(isRecording || isSaving);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
   const pulseAnim = useRef(new Animated.Value(1)).current;
 
@@ -83,8 +391,7 @@ export default function RecordScreen() {
       const recordingObject = await startRecording((status) => {
         if (status.isRecording) {
           setRecordingDuration(Math.floor(status.durationMillis / 1000));
-          // Simulate amplitude for visualization
-          setAmplitude(Math.random() * 0.8 + 0.2);
+          setMetering(status.metering);
         }
       });
 
@@ -134,6 +441,7 @@ export default function RecordScreen() {
   const handleStopRecording = async () => {
     if (!recording.current) return;
 
+    let reRecord = false;
     try {
       setIsSaving(true);
       
@@ -145,20 +453,35 @@ export default function RecordScreen() {
       recording.current = null;
 
       if (result && result.uri) {
-        const recordingData = {
-          id: `${recordingType}-${Date.now()}`,
-          uri: result.uri,
-          duration: result.duration,
-          type: recordingType as 'cough' | 'breath',
-          createdAt: new Date().toISOString(),
-          fileSize: 0,
-        };
+        const type = recordingType as 'cough' | 'breath';
+        const quality = await checkRecordingQuality(result.uri, result.duration, type);
+        const choice = quality.verdict === 'pass' ? 'save' : await promptQuality(quality);
 
-        const saved = await saveRecording(recordingData);
-        
-        if (saved) {
-          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-          router.push('/(tabs)/history');
+        if (choice === 'save') {
+          const recordingData = {
+            id: `${recordingType}-${Date.now()}`,
+            uri: result.uri,
+            duration: result.duration,
+            type,
+            createdAt: new Date().toISOString(),
+            fileSize: 0,
+            quality,
+            sessionId,
+          };
+
+          const saved = await saveRecording(recordingData);
+          
+          if (saved) {
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            if (sessionId) {
+              router.back();
+            } else {
+              router.push('/(tabs)/history');
+            }
+          }
+        } else {
+          await discardRecording(result.uri);
+          reRecord = choice === 'rerecord';
         }
       }
     } catch (error) {
@@ -169,7 +492,11 @@ export default function RecordScreen() {
       setIsPaused(false);
       setIsSaving(false);
       setRecordingDuration(0);
-      setAmplitude(0);
+      setMetering(undefined);
+    }
+
+    if (reRecord) {
+      await handleStartRecording();
     }
   };
 
@@ -186,6 +513,34 @@ export default function RecordScreen() {
         <View style={{ width: 24 }} />
       </View>
 
+      {/* Mode */}
+      {recordingType === 'breath' && !isRecording && !sessionId && (
+        <View style={[styles.optionRow, styles.modeRow]}>
+          {[false, true].map(guided => (
+            <TouchableOpacity
+              key={guided ? 'guided' : 'single'}
+              style={[styles.optionButton, isGuided === guided && { backgroundColor: colors.tint }]}
+              onPress={() => setIsGuided(guided)}
+            >
+              <Text style={{ color: isGuided === guided ? '#fff' : colors.text }}>
+                {guided ? 'Guided Session' : 'Single'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {recordingType === 'breath' && isGuided ? (
+        <ScrollView>
+          <GuidedSession
+            colors={colors}
+            onFinish={savedCount => {
+              if (savedCount > 0) router.push('/(tabs)/history');
+            }}
+          />
+        </ScrollView>
+      ) : (
+      <>
       {/* Instructions */}
       <View style={[styles.instructionsCard, { backgroundColor: colors.background }]}>
         <Ionicons name="information-circle" size={24} color={colors.tint} />
@@ -200,7 +555,7 @@ export default function RecordScreen() {
       {/* Visualization */}
       <View style={styles.visualizationContainer}>
         <WaveformMeter 
-          amplitude={amplitude}
+          metering={metering}
           isRecording={isRecording && !isPaused}
           color={colors.tint}
         />
@@ -271,6 +626,8 @@ export default function RecordScreen() {
           </Text>
         </View>
       </View>
+      </>
+      )}
     </SafeAreaView>
   );
 }
@@ -366,4 +723,48 @@ const styles = StyleSheet.create({
     marginLeft: 8,
     fontSize: 14,
   },
+  optionRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  optionButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ccc',
+  },
+  modeRow: {
+    paddingHorizontal: 20,
+  },
+  sessionContainer: {
+    alignItems: 'center',
+    padding: 20,
+  },
+  sessionHint: {
+    marginLeft: 0,
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  sessionLabel: {
+    marginTop: 20,
+    marginBottom: 12,
+  },
+  sessionProgress: {
+    fontSize: 14,
+    marginVertical: 8,
+    textAlign: 'center',
+  },
+  sessionButton: {
+    marginTop: 24,
+    paddingHorizontal: 32,
+    paddingVertical: 14,
+    borderRadius: 24,
+  },
+  sessionButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
 });
\ No newline at end of file
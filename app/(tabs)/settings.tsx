@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   View,
   Text,
@@ -7,21 +7,75 @@ import {
   Switch,
   Alert,
   ScrollView,
+  ActivityIndicator,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter, useFocusEffect } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 
 import { Colors } from '@/constants/Colors';
 import { useColorScheme } from '@/hooks/useColorScheme';
-import { clearAllRecordings } from '@/utils/storage';
+import { clearAllRecordings, rotateEncryptionKey } from '@/utils/storage';
+import { EncryptionStatus, getEncryptionStatus } from '@/utils/encryption';
+import { MigrationBackup, getMigrationBackup, rollbackMigration } from '@/utils/migrations';
+import { ReconciliationReport, getLastReport, countIssues } from '@/utils/reconciliation';
+import {
+  AUTO_LOCK_OPTIONS,
+  isPinSet,
+  getAutoLockSeconds,
+  setAutoLockSeconds,
+  formatAutoLock,
+} from '@/utils/appLock';
+import { lockApp } from '@/hooks/useAppLock';
+import {
+  API_BASE_URL,
+  ApiBackend,
+  ApiSettings,
+  MOCK_LATENCY_OPTIONS,
+  MOCK_FAILURE_RATE_OPTIONS,
+  getApiSettings,
+  setApiSettings,
+} from '@/app/services/api';
 
 export default function SettingsScreen() {
   const colorScheme = useColorScheme();
+  const router = useRouter();
   const colors = Colors[colorScheme ?? 'light'];
 
   const [notificationsEnabled, setNotificationsEnabled] = useState(true);
   const [autoSaveEnabled, setAutoSaveEnabled] = useState(true);
   const [highQualityRecording, setHighQualityRecording] = useState(false);
+  const [migrationBackup, setMigrationBackup] = useState<MigrationBackup | null>(null);
+  const [storageReport, setStorageReport] = useState<ReconciliationReport | null>(null);
+  const [encryptionStatus, setEncryptionStatus] = useState<EncryptionStatus | null>(null);
+  const [isRotatingKey, setIsRotatingKey] = useState(false);
+  const [pinEnabled, setPinEnabled] = useState(false);
+  const [autoLockSeconds, setAutoLockSecondsState] = useState<number | null>(null);
+  const [apiSettings, setApiSettingsState] = useState<ApiSettings | null>(null);
+
+  useEffect(() => {
+    getMigrationBackup().then(setMigrationBackup);
+    getEncryptionStatus()
+      .then(setEncryptionStatus)
+      .catch(error => console.error('Error reading encryption status:', error));
+    if (__DEV__) {
+      getApiSettings().then(setApiSettingsState);
+    }
+  }, []);
+
+  // Pick up the background scan, or a newer one from the storage check screen,
+  // and a PIN set or removed on the PIN screen
+  useFocusEffect(
+    useCallback(() => {
+      setStorageReport(getLastReport());
+      isPinSet()
+        .then(setPinEnabled)
+        .catch(error => console.error('Error reading app lock:', error));
+      getAutoLockSeconds().then(setAutoLockSecondsState);
+    }, [])
+  );
+
+  const storageIssues = storageReport ? countIssues(storageReport) : 0;
 
   const handleClearAllRecordings = () => {
     Alert.alert(
@@ -46,6 +100,129 @@ export default function SettingsScreen() {
     );
   };
 
+  const handleRestoreBackup = () => {
+    if (!migrationBackup) return;
+
+    Alert.alert(
+      'Restore Pre-Upgrade Data',
+      `This restores your data as it was on ${new Date(migrationBackup.createdAt).toLocaleDateString()}, before the last upgrade. Recordings made since then will no longer be listed.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Restore',
+          style: 'destructive',
+          onPress: async () => {
+            const restored = await rollbackMigration();
+            Alert.alert(
+              restored ? 'Success' : 'Error',
+              restored
+                ? 'Your data has been restored. Restart the app to upgrade it again.'
+                : 'Failed to restore the backup'
+            );
+          },
+        },
+      ]
+    );
+  };
+
+  const handleRotateKey = () => {
+    Alert.alert(
+      'Rotate Encryption Key',
+      'All recordings and health data will be re-encrypted with a new key. This may take a while with many recordings.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Rotate',
+          onPress: async () => {
+            setIsRotatingKey(true);
+            try {
+              await rotateEncryptionKey();
+              setEncryptionStatus(await getEncryptionStatus());
+              Alert.alert('Success', 'Your data is now encrypted with a new key');
+            } catch (error) {
+              console.error('Error rotating encryption key:', error);
+              Alert.alert('Error', 'Key rotation did not finish. It will be completed the next time the app starts.');
+            } finally {
+              setIsRotatingKey(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleAutoLock = () => {
+    Alert.alert(
+      'Auto-lock',
+      'Lock the app after this long in the background. Inactivity locks it after at least a minute.',
+      [
+        ...AUTO_LOCK_OPTIONS.map(seconds => ({
+          text: formatAutoLock(seconds),
+          onPress: async () => {
+            await setAutoLockSeconds(seconds);
+            setAutoLockSecondsState(seconds);
+          },
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  const updateApiSettings = async (updates: Partial<ApiSettings>) => {
+    try {
+      setApiSettingsState(await setApiSettings(updates));
+    } catch (error) {
+      console.error('Error saving API settings:', error);
+      Alert.alert('Error', 'Failed to save the setting');
+    }
+  };
+
+  const handleApiBackend = () => {
+    const backends: { backend: ApiBackend; label: string }[] = [
+      { backend: 'http', label: 'HTTP server' },
+      { backend: 'mock', label: 'Mock (in-app)' },
+    ];
+    Alert.alert(
+      'API Backend',
+      'Switching backends logs you out.',
+      [
+        ...backends.map(({ backend, label }) => ({
+          text: label,
+          onPress: () => updateApiSettings({ backend }),
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  const handleMockLatency = () => {
+    Alert.alert(
+      'Mock Latency',
+      'Delay added to every mock API call.',
+      [
+        ...MOCK_LATENCY_OPTIONS.map(latency => ({
+          text: `${latency} ms`,
+          onPress: () => updateApiSettings({ mockLatencyMs: latency }),
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  const handleMockFailureRate = () => {
+    Alert.alert(
+      'Mock Failures',
+      'Share of mock API calls that fail with a network or server error.',
+      [
+        ...MOCK_FAILURE_RATE_OPTIONS.map(rate => ({
+          text: `${Math.round(rate * 100)}%`,
+          onPress: () => updateApiSettings({ mockFailureRate: rate }),
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
   const handleAbout = () => {
     Alert.alert(
       'About StethoPulse',
@@ -145,6 +322,52 @@ export default function SettingsScreen() {
           )
         )}
 
+        {/* Security */}
+        {renderSection(
+          'SECURITY',
+          <>
+            {renderSettingItem(
+              'lock-closed-outline',
+              pinEnabled ? 'Change PIN' : 'Set PIN',
+              pinEnabled ? 'App lock is on' : 'Require a PIN to open the app',
+              undefined,
+              () => router.push(`/set-pin?mode=${pinEnabled ? 'change' : 'set'}`)
+            )}
+            {pinEnabled && renderSettingItem(
+              'timer-outline',
+              'Auto-lock',
+              autoLockSeconds !== null ? formatAutoLock(autoLockSeconds) : undefined,
+              undefined,
+              handleAutoLock
+            )}
+            {pinEnabled && renderSettingItem(
+              'lock-open-outline',
+              'Turn off app lock',
+              'Stop asking for a PIN',
+              undefined,
+              () => router.push('/set-pin?mode=remove')
+            )}
+            {pinEnabled && renderSettingItem(
+              'log-out-outline',
+              'Lock now',
+              undefined,
+              undefined,
+              lockApp
+            )}
+            {renderSettingItem(
+              'key-outline',
+              'Rotate encryption key',
+              isRotatingKey
+                ? 'Re-encrypting data...'
+                : encryptionStatus
+                  ? `Recordings are encrypted; key created ${new Date(encryptionStatus.keyCreatedAt).toLocaleDateString()}`
+                  : 'Recordings are encrypted on this device',
+              isRotatingKey ? <ActivityIndicator color={colors.tint} /> : undefined,
+              isRotatingKey ? undefined : handleRotateKey
+            )}
+          </>
+        )}
+
         {/* Data Management */}
         {renderSection(
           'DATA',
@@ -152,9 +375,9 @@ export default function SettingsScreen() {
             {renderSettingItem(
               'cloud-upload-outline',
               'Export recordings',
-              'Export all recordings to external storage',
+              'Share recordings and metadata as a ZIP archive',
               undefined,
-              () => Alert.alert('Coming Soon', 'Export feature will be available in a future update')
+              () => router.push('/export')
             )}
             {renderSettingItem(
               'trash-outline',
@@ -163,6 +386,52 @@ export default function SettingsScreen() {
               undefined,
               handleClearAllRecordings
             )}
+            {renderSettingItem(
+              'search-outline',
+              'Check storage',
+              storageReport
+                ? storageIssues > 0
+                  ? `${storageIssues} ${storageIssues === 1 ? 'issue' : 'issues'} found`
+                  : 'No issues found'
+                : 'Find orphaned files and missing audio',
+              undefined,
+              () => router.push('/storage')
+            )}
+            {migrationBackup && renderSettingItem(
+              'arrow-undo-outline',
+              'Restore pre-upgrade data',
+              'Roll back the last data upgrade',
+              undefined,
+              handleRestoreBackup
+            )}
+          </>
+        )}
+
+        {/* Developer, only in development builds */}
+        {__DEV__ && apiSettings && renderSection(
+          'DEVELOPER',
+          <>
+            {renderSettingItem(
+              'server-outline',
+              'API backend',
+              apiSettings.backend === 'mock' ? 'Mock (in-app)' : `HTTP: ${API_BASE_URL}`,
+              undefined,
+              handleApiBackend
+            )}
+            {apiSettings.backend === 'mock' && renderSettingItem(
+              'hourglass-outline',
+              'Mock latency',
+              `${apiSettings.mockLatencyMs} ms per call`,
+              undefined,
+              handleMockLatency
+            )}
+            {apiSettings.backend === 'mock' && renderSettingItem(
+              'bug-outline',
+              'Mock failures',
+              `${Math.round(apiSettings.mockFailureRate * 100)}% of calls fail`,
+              undefined,
+              handleMockFailureRate
+            )}
           </>
         )}
 
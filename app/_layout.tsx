@@ -1,13 +1,21 @@
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
 import { useFonts } from 'expo-font';
-import { Stack } from 'expo-router';
+import { Stack, router } from 'expo-router';
 import * as SplashScreen from 'expo-splash-screen';
 import { StatusBar } from 'expo-status-bar';
 import { useEffect } from 'react';
+import { Alert, InteractionManager, View } from 'react-native';
 import 'react-native-reanimated';
 
 import { useColorScheme } from '@/hooks/useColorScheme'
 import { useFrameworkReady } from '@/hooks/useFrameworkReady';
+import { useAutoLock } from '@/hooks/useAppLock';
+import { AppProvider } from '@/app/context/AppContext';
+import { runMigrations } from '@/utils/migrations';
+import { scanStorage } from '@/utils/reconciliation';
+import { ensureDataEncrypted } from '@/utils/storage';
+import { clearDecryptedCopies } from '@/utils/encryption';
+import { onSessionExpired } from '@/app/services/api';
 
 // Prevent the splash screen from auto-hiding before asset loading is complete.
 SplashScreen.preventAutoHideAsync();
@@ -15,27 +23,75 @@ SplashScreen.preventAutoHideAsync();
 export default function RootLayout() {
   useFrameworkReady();
   const colorScheme = useColorScheme();
+  const { status: lockStatus, onActivity } = useAutoLock();
   const [loaded] = useFonts({
     SpaceMono: require('../assets/fonts/SpaceMono-Regular.ttf'),
   });
 
+  // Upgrade stored data before any screen reads it, then encrypt anything
+  // still plain and scan for orphaned files once the first screen has rendered
+  useEffect(() => {
+    runMigrations().then(report => {
+      InteractionManager.runAfterInteractions(() => {
+        clearDecryptedCopies()
+          .then(ensureDataEncrypted)
+          .catch(error => console.error('Error encrypting stored data:', error))
+          .then(scanStorage)
+          .catch(error => console.error('Error scanning storage:', error));
+      });
+      if (report.error) {
+        Alert.alert(
+          'Data Upgrade Failed',
+          report.rolledBack
+            ? 'Your data could not be upgraded and has been restored to its previous state.'
+            : `Your data could not be upgraded: ${report.error}`
+        );
+      }
+    });
+  }, []);
+
+  // AppProvider logs the user out when the session expires; send them to log in again
+  useEffect(() => {
+    return onSessionExpired(() => router.replace('/(auth)/login'));
+  }, []);
+
   useEffect(() => {
     if (loaded) {
       SplashScreen.hideAsync();
     }
   }, [loaded]);
 
-  if (!loaded) {
+  // Keep the splash screen up until we know whether to show the lock screen
+  if (!loaded || lockStatus === 'loading') {
     return null;
   }
 
+  // Screens showing health data are only mounted while unlocked. The lock
+  // group comes first so it is the screen shown when the app locks.
   return (
-    <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-      <Stack>
-        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-        <Stack.Screen name="+not-found" />
-      </Stack>
-      <StatusBar style="auto" />
-    </ThemeProvider>
+    <AppProvider>
+      <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
+        <View style={{ flex: 1 }} onTouchStart={onActivity}>
+          <Stack>
+            <Stack.Protected guard={lockStatus === 'locked'}>
+              <Stack.Screen name="lock" options={{ headerShown: false, gestureEnabled: false }} />
+            </Stack.Protected>
+            <Stack.Protected guard={lockStatus === 'unlocked'}>
+              <Stack.Screen name="index" />
+              <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+              <Stack.Screen name="(home)" />
+              <Stack.Screen name="analyze" />
+              <Stack.Screen name="recording/[id]" />
+              <Stack.Screen name="session/[id]" />
+              <Stack.Screen name="storage" />
+              <Stack.Screen name="export" />
+              <Stack.Screen name="set-pin" />
+            </Stack.Protected>
+            <Stack.Screen name="+not-found" />
+          </Stack>
+        </View>
+        <StatusBar style="auto" />
+      </ThemeProvider>
+    </AppProvider>
   );
 }
\ No newline at end of file
@@ -1,36 +1,15 @@
 /**
  * App Context Provider
- * Global state management using Context API + useReducer
+ * Global state management using Context API + useReducer.
+ * Recordings are not held here; they are read from utils/storage.ts.
  */
 
-import React, { createContext, useContext, useReducer, useEffect } from 'react';
+import React, { createContext, useContext, useReducer, useEffect, useState } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { runMigrations } from '@/utils/migrations';
+import { onSessionExpired } from '../services/api';
 
 // Define types
-export interface Recording {
-  id: string;
-  uri: string;
-  duration: number;
-  date: string;
-  createdAt?: string; // New field for consistent date handling
-  fileSize?: number;
-  analyzed?: boolean;
-  source: "stethoscope"; // Only stethoscope recordings
-  analysisResult?: AnalysisResult;
-  spectrogramData?: number[];
-}
-
-export interface AnalysisResult {
-  condition?: string;
-  probability?: number;
-  spectrogramUrl?: string;
-  respiratoryRate?: number;
-  confidence?: number;
-  irregularities?: boolean;
-  interpretation?: string;
-  recommendations?: string;
-}
-
 export interface User {
   id: string;
   name: string;
@@ -45,7 +24,6 @@ export interface AppSettings {
 
 export interface AppState {
   user: User | null;
-  recordings: Recording[];
   isLoading: boolean;
   error: string | null;
   isOnboardingComplete: boolean;
@@ -55,7 +33,6 @@ export interface AppState {
 // Initial state
 const initialState: AppState = {
   user: null,
-  recordings: [],
   isLoading: false,
   error: null,
   isOnboardingComplete: false,
@@ -68,10 +45,6 @@ const initialState: AppState = {
 export const ActionTypes = {
   SET_USER: 'SET_USER',
   LOGOUT: 'LOGOUT',
-  ADD_RECORDING: 'ADD_RECORDING',
-  UPDATE_RECORDING: 'UPDATE_RECORDING',
-  DELETE_RECORDING: 'DELETE_RECORDING',
-  UPDATE_ANALYSIS: 'UPDATE_ANALYSIS',
   SET_LOADING: 'SET_LOADING',
   SET_ERROR: 'SET_ERROR',
   COMPLETE_ONBOARDING: 'COMPLETE_ONBOARDING',
@@ -88,26 +61,6 @@ interface LogoutAction {
   type: typeof ActionTypes.LOGOUT;
 }
 
-interface AddRecordingAction {
-  type: typeof ActionTypes.ADD_RECORDING;
-  payload: Recording;
-}
-
-interface UpdateRecordingAction {
-  type: typeof ActionTypes.UPDATE_RECORDING;
-  payload: Partial<Recording> & { id: string };
-}
-
-interface DeleteRecordingAction {
-  type: typeof ActionTypes.DELETE_RECORDING;
-  payload: string;
-}
-
-interface UpdateAnalysisAction {
-  type: typeof ActionTypes.UPDATE_ANALYSIS;
-  payload: { id: string; analysisResult: AnalysisResult };
-}
-
 interface SetLoadingAction {
   type: typeof ActionTypes.SET_LOADING;
   payload: boolean;
@@ -130,10 +83,6 @@ interface UpdateSettingsAction {
 type AppAction =
   | SetUserAction
   | LogoutAction
-  | AddRecordingAction
-  | UpdateRecordingAction
-  | DeleteRecordingAction
-  | UpdateAnalysisAction
   | SetLoadingAction
   | SetErrorAction
   | CompleteOnboardingAction
@@ -148,40 +97,6 @@ function appReducer(state: AppState, action: AppAction): AppState {
     case ActionTypes.LOGOUT:
       return { ...state, user: null, error: null };
     
-    case ActionTypes.ADD_RECORDING:
-      return { 
-        ...state, 
-        recordings: [action.payload, ...state.recordings],
-        error: null
-      };
-    
-    case ActionTypes.UPDATE_RECORDING:
-      return {
-        ...state,
-        recordings: state.recordings.map(recording => 
-          recording.id === action.payload.id ? { ...recording, ...action.payload } : recording
-        ),
-        error: null
-      };
-    
-    case ActionTypes.DELETE_RECORDING:
-      return {
-        ...state,
-        recordings: state.recordings.filter(recording => recording.id !== action.payload),
-        error: null
-      };
-    
-    case ActionTypes.UPDATE_ANALYSIS:
-      return {
-        ...state,
-        recordings: state.recordings.map(recording => 
-          recording.id === action.payload.id 
-            ? { ...recording, analysisResult: action.payload.analysisResult } 
-            : recording
-        ),
-        error: null
-      };
-    
     case ActionTypes.SET_LOADING:
       return { ...state, isLoading: action.payload };
     
@@ -227,26 +142,23 @@ interface AppProviderProps {
 
 export function AppProvider({ children }: AppProviderProps) {
   const [state, dispatch] = useReducer(appReducer, initialState);
+  // Nothing is persisted until the stored state has been read, or the
+  // initial state would overwrite it
+  const [isHydrated, setIsHydrated] = useState(false);
   
   // Load persisted state on app start
   useEffect(() => {
     const loadPersistedState = async () => {
       try {
+        // Upgrade the stored settings before reading them
+        await runMigrations();
+
         // Load user data
         const userData = await AsyncStorage.getItem('user');
         if (userData) {
           dispatch({ type: ActionTypes.SET_USER, payload: JSON.parse(userData) });
         }
         
-        // Load recordings metadata
-        const recordingsData = await AsyncStorage.getItem('recordings');
-        if (recordingsData) {
-          const recordings = JSON.parse(recordingsData);
-          recordings.forEach((recording: Recording) => {
-            dispatch({ type: ActionTypes.ADD_RECORDING, payload: recording });
-          });
-        }
-        
         // Check if onboarding is completed
         const onboardingComplete = await AsyncStorage.getItem('onboardingComplete');
         if (onboardingComplete === 'true') {
@@ -265,14 +177,23 @@ export function AppProvider({ children }: AppProviderProps) {
       } catch (error) {
         console.error('Error loading persisted state:', error);
         dispatch({ type: ActionTypes.SET_ERROR, payload: 'Failed to load app data' });
+      } finally {
+        setIsHydrated(true);
       }
     };
     
     loadPersistedState();
   }, []);
+
+  // Log out when the server ends the session
+  useEffect(() => {
+    return onSessionExpired(() => dispatch({ type: ActionTypes.LOGOUT }));
+  }, []);
   
   // Persist state changes
   useEffect(() => {
+    if (!isHydrated) return;
+
     const persistState = async () => {
       try {
         // Persist user
@@ -282,11 +203,6 @@ export function AppProvider({ children }: AppProviderProps) {
           await AsyncStorage.removeItem('user');
         }
         
-        // Persist recordings metadata
-        if (state.recordings.length > 0) {
-          await AsyncStorage.setItem('recordings', JSON.stringify(state.recordings));
-        }
-        
         // Persist onboarding status
         if (state.isOnboardingComplete) {
           await AsyncStorage.setItem('onboardingComplete', 'true');
@@ -301,7 +217,7 @@ export function AppProvider({ children }: AppProviderProps) {
     };
     
     persistState();
-  }, [state.user, state.recordings, state.isOnboardingComplete, state.settings]);
+  }, [isHydrated, state.user, state.isOnboardingComplete, state.settings]);
   
   const value = { state, dispatch };
   
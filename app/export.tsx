@@ -0,0 +1,303 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  TextInput,
+  Switch,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { countExportable, deleteExport, exportRecordings, shareExport } from '@/utils/export';
+
+type TypeFilter = 'all' | 'cough' | 'breath';
+type RangeFilter = 'all' | '7' | '30' | '90';
+
+const TYPE_OPTIONS: { value: TypeFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'cough', label: 'Cough' },
+  { value: 'breath', label: 'Breath' },
+];
+
+const RANGE_OPTIONS: { value: RangeFilter; label: string }[] = [
+  { value: 'all', label: 'All time' },
+  { value: '7', label: '7 days' },
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+];
+
+// Start of the selected range, or undefined for all time
+function rangeStart(range: RangeFilter): string | undefined {
+  if (range === 'all') return undefined;
+  return new Date(Date.now() - Number(range) * 24 * 60 * 60 * 1000).toISOString();
+}
+
+function OptionRow<T extends string>({
+  options,
+  selected,
+  onSelect,
+  colors,
+}: {
+  options: { value: T; label: string }[];
+  selected: T;
+  onSelect: (value: T) => void;
+  colors: typeof Colors.light;
+}) {
+  return (
+    <View style={styles.optionRow}>
+      {options.map(option => (
+        <TouchableOpacity
+          key={option.value}
+          style={[styles.filterButton, selected === option.value && { backgroundColor: colors.tint }]}
+          onPress={() => onSelect(option.value)}
+        >
+          <Text style={[styles.filterText, { color: selected === option.value ? '#fff' : colors.text }]}>
+            {option.label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+export default function ExportScreen() {
+  const colorScheme = useColorScheme();
+  const router = useRouter();
+  const colors = Colors[colorScheme ?? 'light'];
+
+  const [typeFilter, setTypeFilter] = useState<TypeFilter>('all');
+  const [rangeFilter, setRangeFilter] = useState<RangeFilter>('all');
+  const [patient, setPatient] = useState('');
+  const [includeSpectrograms, setIncludeSpectrograms] = useState(false);
+  const [matchCount, setMatchCount] = useState<number | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Keep the count in step with the filters
+  useEffect(() => {
+    let cancelled = false;
+    countExportable({
+      type: typeFilter === 'all' ? undefined : typeFilter,
+      from: rangeStart(rangeFilter),
+      patient: patient.trim() || undefined,
+    }).then(count => {
+      if (!cancelled) setMatchCount(count);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [typeFilter, rangeFilter, patient]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const result = await exportRecordings({
+        type: typeFilter === 'all' ? undefined : typeFilter,
+        from: rangeStart(rangeFilter),
+        patient: patient.trim() || undefined,
+        includeSpectrograms,
+      });
+      try {
+        if (result.missingAudio.length > 0) {
+          Alert.alert(
+            'Audio Missing',
+            `${result.missingAudio.length} of ${result.recordingCount} recordings were exported without audio because their files are missing.`
+          );
+        }
+        await shareExport(result.uri);
+      } finally {
+        // The archive is decrypted, so don't leave it behind
+        await deleteExport(result.uri);
+      }
+    } catch (error) {
+      console.error('Error exporting recordings:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to export recordings');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: colors.text }]}>Export Recordings</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <ScrollView>
+        <View style={[styles.card, { backgroundColor: colors.background }]}>
+          <Text style={[styles.label, { color: colors.icon }]}>Type</Text>
+          <OptionRow
+            options={TYPE_OPTIONS}
+            selected={typeFilter}
+            onSelect={setTypeFilter}
+            colors={colors}
+          />
+
+          <Text style={[styles.label, { color: colors.icon }]}>Recorded in the last</Text>
+          <OptionRow
+            options={RANGE_OPTIONS}
+            selected={rangeFilter}
+            onSelect={setRangeFilter}
+            colors={colors}
+          />
+
+          <Text style={[styles.label, { color: colors.icon }]}>Patient</Text>
+          <TextInput
+            style={[styles.input, { color: colors.text }]}
+            value={patient}
+            onChangeText={setPatient}
+            placeholder="All patients"
+            placeholderTextColor={colors.icon}
+          />
+
+          <View style={styles.switchRow}>
+            <View style={styles.switchText}>
+              <Text style={[styles.switchTitle, { color: colors.text }]}>Include spectrograms</Text>
+              <Text style={[styles.label, { color: colors.icon }]}>
+                Adds cached spectrograms; increases archive size
+              </Text>
+            </View>
+            <Switch
+              value={includeSpectrograms}
+              onValueChange={setIncludeSpectrograms}
+              trackColor={{ false: '#767577', true: colors.tint }}
+              thumbColor="#f4f3f4"
+            />
+          </View>
+        </View>
+
+        <View style={styles.actionsContainer}>
+          <Text style={[styles.matchCount, { color: colors.icon }]}>
+            {matchCount === null
+              ? 'Counting recordings...'
+              : `${matchCount} ${matchCount === 1 ? 'recording' : 'recordings'} will be exported as a ZIP archive with a JSON manifest`}
+          </Text>
+          <TouchableOpacity
+            style={[
+              styles.exportButton,
+              { backgroundColor: colors.tint },
+              (isExporting || !matchCount) && styles.disabledButton,
+            ]}
+            onPress={handleExport}
+            disabled={isExporting || !matchCount}
+          >
+            {isExporting ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <>
+                <Ionicons name="share-outline" size={20} color="#fff" />
+                <Text style={styles.exportButtonText}>Export and Share</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  card: {
+    marginHorizontal: 20,
+    marginVertical: 10,
+    padding: 20,
+    borderRadius: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  label: {
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  filterButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+  },
+  filterText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  switchText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  switchTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginBottom: 2,
+  },
+  actionsContainer: {
+    padding: 20,
+  },
+  matchCount: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+    borderRadius: 12,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  exportButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+});
@@ -0,0 +1,94 @@
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { unlockApp } from '@/hooks/useAppLock';
+import { PinPad } from '@/components/PinPad';
+import { verifyPin, getLockout } from '@/utils/appLock';
+
+export default function LockScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+
+  const [error, setError] = useState<string>();
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  // A lockout from before the app was closed still applies
+  useEffect(() => {
+    getLockout().then(setLockedUntil);
+  }, []);
+
+  useEffect(() => {
+    if (!lockedUntil) return;
+    const interval = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= lockedUntil) {
+        setLockedUntil(null);
+        setError(undefined);
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [lockedUntil]);
+
+  const handleSubmit = async (pin: string) => {
+    setIsChecking(true);
+    try {
+      const result = await verifyPin(pin);
+      if (result.ok) {
+        unlockApp();
+        return;
+      }
+      setLockedUntil(result.lockedUntil);
+      setNow(Date.now());
+      setError(
+        result.attemptsLeft > 0
+          ? `Incorrect PIN. ${result.attemptsLeft} ${result.attemptsLeft === 1 ? 'attempt' : 'attempts'} left.`
+          : 'Incorrect PIN.'
+      );
+    } catch (error) {
+      console.error('Error verifying PIN:', error);
+      setError('Could not check the PIN. Please try again.');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const secondsLeft = lockedUntil ? Math.max(Math.ceil((lockedUntil - now) / 1000), 0) : 0;
+  const lockoutMessage = secondsLeft >= 60
+    ? `Too many attempts. Try again in ${Math.ceil(secondsLeft / 60)} minutes.`
+    : `Too many attempts. Try again in ${secondsLeft} seconds.`;
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={styles.content}>
+        <Ionicons name="lock-closed" size={48} color={colors.tint} style={styles.icon} />
+        <PinPad
+          title="StethoPulse is Locked"
+          message="Enter your PIN to continue"
+          error={lockedUntil ? lockoutMessage : error}
+          disabled={isChecking || lockedUntil !== null}
+          onSubmit={handleSubmit}
+        />
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+  },
+  icon: {
+    alignSelf: 'center',
+    marginBottom: 24,
+  },
+});
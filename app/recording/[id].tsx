@@ -17,7 +17,9 @@ import { Colors } from '@/constants/Colors';
 import { useColorScheme } from '@/hooks/useColorScheme';
 import { getRecordingById, deleteRecording } from '@/utils/storage';
 import { playRecording } from '@/utils/audio';
+import { decryptedCopy } from '@/utils/encryption';
 import { Recording } from '@/types/recording';
+import { formatCoughCount } from '@/utils/coughDetection';
 
 export default function RecordingDetailScreen() {
   const colorScheme = useColorScheme();
@@ -124,8 +126,9 @@ export default function RecordingDetailScreen() {
     if (!recording) return;
 
     try {
+      // The stored file is encrypted; share a plain copy from the cache
       await Share.share({
-        url: recording.uri,
+        url: await decryptedCopy(recording.uri),
         title: `${recording.type} Recording - ${formatDate(recording.createdAt)}`,
       });
     } catch (error) {
@@ -254,6 +257,62 @@ export default function RecordingDetailScreen() {
             {recording.type === 'cough' ? 'Cough Sample' : 'Breath Sample'}
           </Text>
         </View>
+
+        {recording.origin === 'imported' && (
+          <View style={styles.detailRow}>
+            <Text style={[styles.detailLabel, { color: colors.icon }]}>Source</Text>
+            <Text style={[styles.detailValue, { color: colors.text }]} numberOfLines={1}>
+              Imported{recording.originalName ? ` (${recording.originalName})` : ''}
+            </Text>
+          </View>
+        )}
+
+        {recording.sampleRate !== undefined && (
+          <View style={styles.detailRow}>
+            <Text style={[styles.detailLabel, { color: colors.icon }]}>Format</Text>
+            <Text style={[styles.detailValue, { color: colors.text }]}>
+              {(recording.sampleRate / 1000).toFixed(1)} kHz
+              {recording.channels ? `, ${recording.channels === 1 ? 'mono' : `${recording.channels} channels`}` : ''}
+            </Text>
+          </View>
+        )}
+
+        {recording.sessionId && (
+          <TouchableOpacity
+            style={styles.detailRow}
+            onPress={() => router.push(`/session/${recording.sessionId}`)}
+          >
+            <Text style={[styles.detailLabel, { color: colors.icon }]}>Session</Text>
+            <Ionicons name="chevron-forward" size={20} color={colors.tint} />
+          </TouchableOpacity>
+        )}
+
+        {recording.quality && (
+          <View style={styles.detailRow}>
+            <Text style={[styles.detailLabel, { color: colors.icon }]}>Quality</Text>
+            <Text style={[styles.detailValue, { color: colors.text }]}>
+              {recording.quality.score}/100 ({recording.quality.verdict})
+            </Text>
+          </View>
+        )}
+
+        {recording.type === 'cough' && recording.coughEvents && (
+          <View style={styles.detailRow}>
+            <Text style={[styles.detailLabel, { color: colors.icon }]}>Coughs</Text>
+            <Text style={[styles.detailValue, { color: colors.text }]}>
+              {formatCoughCount(recording.coughEvents.length)}
+            </Text>
+          </View>
+        )}
+
+        {recording.type === 'cough' && recording.coughEvents && recording.coughEvents.length > 0 && (
+          <View style={styles.detailRow}>
+            <Text style={[styles.detailLabel, { color: colors.icon }]}>Cough Times</Text>
+            <Text style={[styles.detailValue, { color: colors.text }]}>
+              {recording.coughEvents.map(event => `${event.start.toFixed(1)}s`).join(', ')}
+            </Text>
+          </View>
+        )}
       </View>
 
       {/* Actions */}
@@ -1,63 +1,220 @@
 /**
  * API Service
- * Handles communication with backend services
+ * Handles communication with backend services. Calls go to the backend
+ * chosen in the developer settings: the HTTP server, or the in-process mock.
  */
 
-import { User, Recording, AnalysisResult } from '../context/AppContext';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { User } from '../context/AppContext';
+import { Recording, AnalysisResult } from '@/types/recording';
+import { getTokens, saveTokens, clearTokens } from '@/utils/authTokens';
+import { ApiClient, ApiError, AuthSession, HealthHistoryEntry, SyncResult } from './apiClient';
+import { createHttpClient } from './httpClient';
+import { createMockClient } from './mockClient';
 
-// Base URL for API calls
-const API_BASE_URL = 'https://api.respiratoryhealth.com';
+export { ApiError } from './apiClient';
+export type { HealthHistoryEntry, SyncResult } from './apiClient';
 
-// Simulate API calls with a delay
-const simulateApiCall = <T>(data: T, delay: number = 1000): Promise<T> => {
-  return new Promise(resolve => {
-    setTimeout(() => resolve(data), delay);
-  });
+// Base URL for API calls; set EXPO_PUBLIC_API_BASE_URL to use another server,
+// such as the stand-in from scripts/api-server.js
+export const API_BASE_URL = (
+  process.env.EXPO_PUBLIC_API_BASE_URL ?? 'https://api.respiratoryhealth.com'
+).replace(/\/+$/, '');
+
+const API_SETTINGS_KEY = 'stethopulse_api_settings';
+
+export type ApiBackend = 'http' | 'mock';
+
+export interface ApiSettings {
+  backend: ApiBackend;
+  mockLatencyMs: number;
+  mockFailureRate: number;    // 0 to 1
+}
+
+const DEFAULT_API_SETTINGS: ApiSettings = {
+  backend: 'http',
+  mockLatencyMs: 500,
+  mockFailureRate: 0,
 };
 
+export const MOCK_LATENCY_OPTIONS = [0, 500, 2000, 5000];
+export const MOCK_FAILURE_RATE_OPTIONS = [0, 0.1, 0.25, 0.5, 1];
+
+/**
+ * Backend selection
+ */
+
+let settings: ApiSettings | null = null;
+const httpClient = createHttpClient(API_BASE_URL);
+// One mock for the app's lifetime, so its accounts survive option changes
+const mockClient = createMockClient(() => {
+  const { mockLatencyMs, mockFailureRate } = settings ?? DEFAULT_API_SETTINGS;
+  return { latencyMs: mockLatencyMs, failureRate: mockFailureRate };
+});
+
+export async function getApiSettings(): Promise<ApiSettings> {
+  if (!settings) {
+    const stored = await AsyncStorage.getItem(API_SETTINGS_KEY);
+    settings = stored ? { ...DEFAULT_API_SETTINGS, ...JSON.parse(stored) } : DEFAULT_API_SETTINGS;
+  }
+  return settings!;
+}
+
+// Switching backends ends the session, as the other backend's tokens mean nothing here
+export async function setApiSettings(updates: Partial<ApiSettings>): Promise<ApiSettings> {
+  const previous = await getApiSettings();
+  const next = { ...previous, ...updates };
+  await AsyncStorage.setItem(API_SETTINGS_KEY, JSON.stringify(next));
+  settings = next;
+
+  if (next.backend !== previous.backend && (await getTokens())) {
+    await endSession();
+  }
+  return next;
+}
+
+async function getClient(): Promise<ApiClient> {
+  return (await getApiSettings()).backend === 'mock' ? mockClient : httpClient;
+}
+
+/**
+ * Session
+ */
+
+const sessionExpiredListeners = new Set<() => void>();
+let pendingRefresh: Promise<string | null> | null = null;
+
+// Called when the session ends without the user logging out, e.g. once the refresh token expires
+export function onSessionExpired(listener: () => void): () => void {
+  sessionExpiredListeners.add(listener);
+  return () => {
+    sessionExpiredListeners.delete(listener);
+  };
+}
+
+async function endSession() {
+  await clearTokens();
+  sessionExpiredListeners.forEach(listener => listener());
+}
+
+/**
+ * Swap the refresh token for new tokens. Requests that get a 401 at the same
+ * time share one refresh, as the server only accepts each refresh token once.
+ * Resolves to null when the session can no longer be refreshed.
+ */
+function refreshAccessToken(client: ApiClient): Promise<string | null> {
+  if (!pendingRefresh) {
+    pendingRefresh = (async () => {
+      const tokens = await getTokens();
+      if (!tokens) return null;
+
+      try {
+        const refreshed = await client.refresh(tokens.refreshToken);
+        await saveTokens({ accessToken: refreshed.accessToken, refreshToken: refreshed.refreshToken });
+        return refreshed.accessToken;
+      } catch (error) {
+        if (error instanceof ApiError && (error.status === 400 || error.status === 401)) {
+          await endSession();
+          return null;
+        }
+        throw error;
+      }
+    })().finally(() => {
+      pendingRefresh = null;
+    });
+  }
+  return pendingRefresh;
+}
+
+// Make a call as the signed-in user, refreshing the access token once if it has expired
+async function authorized<T>(request: (client: ApiClient, accessToken: string) => Promise<T>): Promise<T> {
+  const client = await getClient();
+  const tokens = await getTokens();
+  if (!tokens) {
+    throw new ApiError('You are not logged in', 401);
+  }
+
+  try {
+    return await request(client, tokens.accessToken);
+  } catch (error) {
+    if (!(error instanceof ApiError) || error.status !== 401) throw error;
+  }
+
+  const accessToken = await refreshAccessToken(client);
+  if (!accessToken) {
+    throw new ApiError('Your session has expired. Please log in again.', 401);
+  }
+  return request(client, accessToken);
+}
+
+async function startSession(session: AuthSession): Promise<User> {
+  await saveTokens({ accessToken: session.accessToken, refreshToken: session.refreshToken });
+  return session.user;
+}
+
 /**
  * Authentication
  */
 
 // Login user
 export async function loginUser(email: string, password: string): Promise<User> {
-  // Simulated API response
-  const mockResponse: User = {
-    id: '1234',
-    name: 'John Doe',
-    email: email,
-  };
-  
-  return simulateApiCall(mockResponse);
+  const client = await getClient();
+  return startSession(await client.login(email.trim(), password));
 }
 
 // Register user
 export async function registerUser(
-  name: string, 
-  email: string, 
+  name: string,
+  email: string,
   password: string
 ): Promise<User> {
-  // Simulated API response
-  const mockResponse: User = {
-    id: '1234',
-    name: name,
-    email: email,
-  };
-  
-  return simulateApiCall(mockResponse);
+  const client = await getClient();
+  return startSession(await client.register(name.trim(), email.trim(), password));
+}
+
+// Get the signed-in user's account
+export async function getCurrentUser(): Promise<User> {
+  return authorized((client, accessToken) => client.getCurrentUser(accessToken));
+}
+
+// Forget the tokens and revoke the refresh token; logging out works offline too
+export async function logoutUser(): Promise<void> {
+  const tokens = await getTokens();
+  await clearTokens();
+  if (!tokens) return;
+
+  try {
+    await (await getClient()).logout(tokens.refreshToken);
+  } catch (error) {
+    console.error('Error revoking session:', error);
+  }
+}
+
+// Email a password reset code. Succeeds whether or not the account exists.
+export async function requestPasswordReset(email: string): Promise<void> {
+  await (await getClient()).requestPasswordReset(email.trim());
+}
+
+// Set a new password with the emailed code
+export async function confirmPasswordReset(
+  email: string,
+  code: string,
+  password: string
+): Promise<void> {
+  await (await getClient()).confirmPasswordReset(email.trim(), code.trim(), password);
 }
 
 // Login as guest
 export async function loginAsGuest(): Promise<User> {
-  // Simulated API response
-  const mockResponse: User = {
+  // Guests have no account, so drop any previous account's tokens
+  await clearTokens();
+
+  return {
     id: 'guest-123',
     name: 'Guest',
     email: 'guest@example.com',
     isGuest: true,
   };
-  
-  return simulateApiCall(mockResponse);
 }
 
 /**
@@ -66,57 +223,25 @@ export async function loginAsGuest(): Promise<User> {
 
 // Send recording for analysis
 export async function analyzeRecording(recordingUri: string): Promise<AnalysisResult> {
-  // Simulated analysis result
-  const mockResponse: AnalysisResult = {
-    condition: 'Healthy',
-    probability: 0.92,
-  };
-  
-  return simulateApiCall(mockResponse, 2000);
+  return authorized((client, accessToken) => client.analyzeRecording(accessToken, recordingUri));
 }
 
-// Sync recordings with server
-export async function syncRecordings(recordings: Recording[]): Promise<boolean> {
-  // Simulate successful sync
-  return simulateApiCall(true, 1500);
+// Sync recordings with server; audio stays on the device
+export async function syncRecordings(recordings: Recording[]): Promise<SyncResult> {
+  const metadata = recordings.map(({ uri, ...recording }) => recording);
+  return authorized((client, accessToken) => client.syncRecordings(accessToken, metadata));
 }
 
 /**
  * User Profile
  */
 
-// Update user profile
-export async function updateUserProfile(userId: string, updates: Partial<User>): Promise<User> {
-  // Simulated API response
-  const mockResponse: User = {
-    id: userId,
-    name: updates.name || 'John Doe',
-    email: updates.email || 'john@example.com',
-  };
-  
-  return simulateApiCall(mockResponse);
-}
-
-// Get user's health history
-export async function getUserHistory(userId: string): Promise<any[]> {
-  // Simulated API response
-  const mockResponse = [
-    {
-      date: '2023-07-01',
-      status: 'Healthy',
-      score: 95,
-    },
-    {
-      date: '2023-06-15',
-      status: 'Minor Issues',
-      score: 82,
-    },
-    {
-      date: '2023-06-01',
-      status: 'Healthy',
-      score: 90,
-    },
-  ];
-  
-  return simulateApiCall(mockResponse);
+// Update the signed-in user's profile
+export async function updateUserProfile(updates: Partial<Pick<User, 'name' | 'email'>>): Promise<User> {
+  return authorized((client, accessToken) => client.updateProfile(accessToken, updates));
+}
+
+// Get the signed-in user's health history
+export async function getUserHistory(): Promise<HealthHistoryEntry[]> {
+  return authorized((client, accessToken) => client.getHistory(accessToken));
 }
@@ -0,0 +1,62 @@
+/**
+ * API Client
+ * The backend interface the app talks to, implemented over HTTP by
+ * httpClient.tsx and in-process by mockClient.tsx. Token storage and refresh
+ * live in api.tsx, so implementations only make single calls.
+ */
+
+import { User } from '../context/AppContext';
+import { Recording, AnalysisResult } from '@/types/recording';
+import { AuthTokens } from '@/utils/authTokens';
+
+// A failed request; status is 0 when the server could not be reached
+export class ApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+export interface AuthSession extends AuthTokens {
+  user: User;
+}
+
+// Recording metadata as sent to the server; audio is uploaded only for analysis
+export type SyncedRecording = Omit<Recording, 'uri'>;
+
+export interface SyncResult {
+  synced: number;
+}
+
+export interface HealthHistoryEntry {
+  date: string;
+  status: string;
+  score: number;
+}
+
+export interface ApiClient {
+  // Auth
+  login(email: string, password: string): Promise<AuthSession>;
+  register(name: string, email: string, password: string): Promise<AuthSession>;
+  // Fails with status 400 or 401 once the refresh token is no longer valid
+  refresh(refreshToken: string): Promise<AuthTokens>;
+  logout(refreshToken: string): Promise<void>;
+  requestPasswordReset(email: string): Promise<void>;
+  confirmPasswordReset(email: string, code: string, password: string): Promise<void>;
+
+  // The calls below fail with status 401 when the access token has expired
+  getCurrentUser(accessToken: string): Promise<User>;
+
+  // Analysis
+  analyzeRecording(accessToken: string, recordingUri: string): Promise<AnalysisResult>;
+
+  // Sync
+  syncRecordings(accessToken: string, recordings: SyncedRecording[]): Promise<SyncResult>;
+
+  // Profile
+  updateProfile(accessToken: string, updates: Partial<Pick<User, 'name' | 'email'>>): Promise<User>;
+  getHistory(accessToken: string): Promise<HealthHistoryEntry[]>;
+}
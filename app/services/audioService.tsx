@@ -1,11 +1,22 @@
 /**
  * Audio Service
- * Handles audio recording, playback, and processing
+ * Handles audio recording, playback, and processing.
+ * Recording metadata lives in utils/storage.ts.
  */
 import { Audio } from 'expo-av';
 import * as FileSystem from 'expo-file-system';
 import { Alert } from 'react-native';
-import { Recording, AnalysisResult } from '../context/AppContext';
+import { AnalysisResult } from '@/types/recording';
+import { loadSpectrogram, saveSpectrogram } from '@/utils/storage';
+import { readAudioFile } from '@/utils/audioDecoder';
+import { Spectrogram, computeSpectrogram } from '@/utils/spectrogram';
+import { breathEnvelope, estimateRateFromEnvelope } from '@/utils/respiratoryRate';
+import { segmentBreathPhases, formatIERatio } from '@/utils/breathPhases';
+import { detectCoughs, formatCoughCount } from '@/utils/coughDetection';
+import { detectWheezes } from '@/utils/wheezeDetection';
+import { detectCrackles, cracklesPresent } from '@/utils/crackleDetection';
+import { FilterChainOptions, applyFilterChain, DEFAULT_FILTER_CHAIN } from '@/utils/filters';
+import { detectHeartSounds, suppressHeartSounds } from '@/utils/heartSounds';
 
 // Audio recording settings
 const RECORDING_OPTIONS = {
@@ -203,138 +214,102 @@ export async function playRecording(uri: string): Promise<Audio.Sound | null> {
   }
 }
 
-// Delete a recording
-export async function deleteRecording(id: string): Promise<boolean> {
-  try {
-    // Find the recording by ID to get the URI
-    const recordings = await getRecordings();
-    const recording = recordings.find(r => r.id === id);
-    
-    if (!recording || !recording.uri) {
-      return false;
-    }
-    
-    // Check if file exists
-    const fileInfo = await FileSystem.getInfoAsync(recording.uri);
-    if (fileInfo.exists) {
-      await FileSystem.deleteAsync(recording.uri);
-      return true;
-    }
-    return false;
-  } catch (error) {
-    console.error('Error deleting recording:', error);
-    Alert.alert('Error', 'Failed to delete recording');
-    return false;
+// Get the spectrogram for a recording, computing and caching it on first use
+export async function generateSpectrogramData(
+  recordingId: string,
+  uri: string
+): Promise<Spectrogram> {
+  const cached = await loadSpectrogram(recordingId);
+  if (cached) {
+    return cached;
   }
-}
 
-// Get all saved recordings
-export async function getRecordings(): Promise<Partial<Recording>[]> {
-  try {
-    await ensureDirectoryExists();
-    
-    // Get all files in the recordings directory
-    const files = await FileSystem.readDirectoryAsync(RECORDINGS_DIRECTORY);
-  console.log('getRecordings - files in directory:', files);
-    
-    // Filter for audio files
-    const audioFiles = files.filter(file => 
-      file.endsWith('.wav') || file.endsWith('.mp3') || file.endsWith('.m4a')
-    );
-    
-    // Sort by date (newest first) based on filename
-    audioFiles.sort().reverse();
-    
-    // Create recordings metadata
-    return audioFiles.map(fileName => {
-      // Extract timestamp from filename (assuming format recording-timestamp.extension)
-      const timestamp = fileName.split('-')[1]?.split('.')[0];
-      const date = timestamp ? new Date(Number(timestamp)) : new Date();
-      
-      return {
-        id: fileName,
-        uri: `${RECORDINGS_DIRECTORY}${fileName}`,
-        date: date.toISOString(),
-        // We don't know the duration without loading the file
-        duration: 0,
-      };
-    });
-  } catch (error) {
-    console.error('Error getting recordings:', error);
-    return [];
-  }
-}
+  const audio = await readAudioFile(uri);
+  const spectrogram = await computeSpectrogram(audio);
+  await saveSpectrogram(recordingId, spectrogram);
 
-// Generate spectrogram data (placeholder for now)
-export async function generateSpectrogramData(uri: string): Promise<number[]> {
-  // This would typically involve processing the audio file to create a spectrogram
-  // For now we return mock data
-  console.log('Generating spectrogram for:', uri);
-  
-  // Generate mock spectrogram data
-  const data: number[] = [];
-  for (let i = 0; i < 100; i++) {
-    // Create a pattern that looks like audio waves
-    data.push(Math.abs(Math.sin(i / 5) * 200 + Math.random() * 55));
-  }
-  
-  return data;
+  return spectrogram;
 }
 
-// Save a recording to storage
-export async function saveRecording(recordingData: Partial<Recording>): Promise<boolean> {
+// Respiratory rate estimates below this confidence are reported as inconclusive
+const MIN_RATE_CONFIDENCE = 0.3;
+// Cough detection looks at energy up to 4 kHz, so widen the default band-pass
+const COUGH_BAND_PASS_HIGH = 4000;
+
+// Analyze a recording from its decoded samples, after the enabled pre-processing filters
+export async function analyzeRecording(
+  uri: string,
+  type: 'cough' | 'breath' = 'breath',
+  filterOptions: FilterChainOptions = {}
+): Promise<AnalysisResult> {
   try {
-    // Ensure we have a valid ID and URI
-    if (!recordingData.id || !recordingData.uri) {
-      throw new Error('Recording must have an ID and URI');
+    const decoded = await readAudioFile(uri);
+    const { audio: filtered, applied: filters } = applyFilterChain(decoded, {
+      ...(type === 'cough' ? { bandPassHigh: COUGH_BAND_PASS_HIGH } : {}),
+      ...filterOptions,
+    });
+
+    if (type === 'cough') {
+      const coughEvents = detectCoughs(filtered);
+      const count = coughEvents.length;
+      return {
+        condition: 'Not assessed',
+        confidence: 0,
+        irregularities: false,
+        interpretation: count > 0
+          ? `${formatCoughCount(count)}. Respiratory rate is only estimated for breath recordings.`
+          : 'No distinct cough events were detected in this recording.',
+        recommendations: 'Record a breath sample to measure your respiratory rate.',
+        coughEvents,
+        filters,
+      };
     }
-    
-    // If this is a temporary file, move it to our recordings directory
-    if (!recordingData.uri.startsWith(RECORDINGS_DIRECTORY)) {
-      await ensureDirectoryExists();
-      
-      // Generate a proper filename based on the ID
-      const fileName = `${recordingData.id}.wav`;
-      const destUri = `${RECORDINGS_DIRECTORY}${fileName}`;
-      
-      // Move the file
-      await FileSystem.moveAsync({
-        from: recordingData.uri,
-        to: destUri,
-      });
-      
-      // Update the URI
-      recordingData.uri = destUri;
+
+    // Chest recordings: locate S1/S2 in the raw audio and remove them before lung analysis
+    let audio = filtered;
+    let heartRate: number | undefined;
+    if (filterOptions.heartSuppression ?? DEFAULT_FILTER_CHAIN.heartSuppression) {
+      const heartSounds = detectHeartSounds(decoded);
+      if (heartSounds) {
+        audio = suppressHeartSounds(filtered, heartSounds);
+        heartRate = heartSounds.heartRate;
+        filters.push({ name: 'heartSuppression', params: { heartRate } });
+      }
     }
-    
-    // Get file info to update metadata including size
-    const fileInfo = await FileSystem.getInfoAsync(recordingData.uri, { size: true });
-    
-    if (fileInfo.exists && 'size' in fileInfo) {
-      // Update file size in recording data
-      recordingData.fileSize = fileInfo.size;
+
+    const envelope = breathEnvelope(audio);
+    const estimate = estimateRateFromEnvelope(envelope);
+    const phaseAnalysis = segmentBreathPhases(envelope, estimate?.period);
+    const phaseFields: Partial<AnalysisResult> = phaseAnalysis
+      ? {
+          phases: phaseAnalysis.phases,
+          meanInspirationDuration: phaseAnalysis.meanInspiration,
+          meanExpirationDuration: phaseAnalysis.meanExpiration,
+          ieRatio: phaseAnalysis.ieRatio,
+          prolongedExpiration: phaseAnalysis.prolongedExpiration,
+        }
+      : {};
+    const wheezes = detectWheezes(audio, phaseAnalysis?.phases);
+    const crackles = detectCrackles(audio, phaseAnalysis?.phases);
+
+    if (!estimate || estimate.confidence < MIN_RATE_CONFIDENCE) {
+      return {
+        condition: 'Inconclusive',
+        confidence: estimate ? Math.round(estimate.confidence * 100) : 0,
+        irregularities: false,
+        interpretation: `No regular breathing pattern could be detected in this ${audio.duration.toFixed(0)} second recording.`,
+        recommendations: 'Record again in a quiet room for at least 15 seconds, breathing steadily with the stethoscope held still.',
+        ...phaseFields,
+        wheezes,
+        crackles,
+        filters,
+        heartRate,
+      };
     }
-    
-    // Return success
-    return fileInfo.exists;
-  } catch (error) {
-    console.error('Error saving recording:', error);
-    return false;
-  }
-}
 
-// Analyze a recording (placeholder for now)
-export async function analyzeRecording(uri: string): Promise<AnalysisResult> {
-  try {
-    // In a real app, this would send the audio to a server or local model for analysis
-    // For now we return mock data with a delay to simulate processing
-    
-    // Simulate processing delay
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    // Generate mock analysis results
-    const respiratoryRate = 15 + Math.floor(Math.random() * 10); // 15-25 breaths/min
-    const confidence = 70 + Math.floor(Math.random() * 25); // 70-95%
+    const respiratoryRate = Math.round(estimate.breathsPerMinute);
+    const confidence = Math.round(estimate.confidence * 100);
+    const hasCrackles = cracklesPresent(crackles, (audio.duration * estimate.breathsPerMinute) / 60);
     
     // Determine condition based on respiratory rate
     let condition = 'Normal';
@@ -346,15 +321,46 @@ export async function analyzeRecording(uri: string): Promise<AnalysisResult> {
     } else if (respiratoryRate > 20) {
       condition = 'Tachypnea';
       irregularities = true;
+    } else if (phaseAnalysis?.prolongedExpiration) {
+      condition = 'Prolonged Expiration';
+      irregularities = true;
+    } else if (wheezes.count > 0) {
+      condition = 'Wheezing';
+      irregularities = true;
+    } else if (hasCrackles) {
+      condition = 'Crackles';
+      irregularities = true;
     }
     
-    // Generate interpretation and recommendations
-    const interpretation = irregularities
+    // Describe the rate and then each finding, so the text agrees with the condition
+    const rateIsAbnormal = condition === 'Bradypnea' || condition === 'Tachypnea';
+    let interpretation = rateIsAbnormal
       ? `Your respiratory rate of ${respiratoryRate} breaths per minute indicates ${condition}, which may be a sign of respiratory distress.`
-      : `Your respiratory rate of ${respiratoryRate} breaths per minute is within the normal range, suggesting healthy respiratory function.`;
+      : `Your respiratory rate of ${respiratoryRate} breaths per minute is within the normal range.`;
+    const concerns: string[] = rateIsAbnormal ? ['your respiratory rate'] : [];
+    
+    if (phaseAnalysis?.prolongedExpiration) {
+      interpretation += ` Expiration is prolonged (I:E ${formatIERatio(phaseAnalysis.ieRatio)}), which can be associated with obstructive airway disease.`;
+      concerns.push('the prolonged expiration');
+    }
+    if (wheezes.count > 0) {
+      const wheezeSeconds = wheezes.wheezes.reduce((sum, wheeze) => sum + wheeze.end - wheeze.start, 0);
+      interpretation += ` ${wheezes.count} ${wheezes.count === 1 ? 'wheeze was' : 'wheezes were'} heard, lasting ${wheezeSeconds.toFixed(1)} seconds in total, which can be a sign of narrowed airways such as in asthma or COPD.`;
+      concerns.push('the wheezing');
+    }
+    if (hasCrackles) {
+      interpretation += ` ${crackles.crackles.length} crackles were heard (${crackles.fineCount} fine, ${crackles.coarseCount} coarse), which can be a sign of fluid or secretions in the airways.`;
+      concerns.push('the crackles');
+    }
+    if (concerns.length === 0) {
+      interpretation += ' No abnormal breath sounds were found, suggesting healthy respiratory function.';
+    }
     
-    const recommendations = irregularities
-      ? `Consider consulting a healthcare provider about your respiratory rate. Stay hydrated and maintain good ventilation in your environment.`
+    const concernList = concerns.length > 1
+      ? `${concerns.slice(0, -1).join(', ')} and ${concerns[concerns.length - 1]}`
+      : concerns[0];
+    const recommendations = concerns.length > 0
+      ? `Consider consulting a healthcare provider about ${concernList}. Stay hydrated and maintain good ventilation in your environment.`
       : `Continue monitoring your respiratory health periodically. Regular exercise and good air quality can help maintain respiratory health.`;
     
     return {
@@ -364,6 +370,11 @@ export async function analyzeRecording(uri: string): Promise<AnalysisResult> {
       irregularities,
       interpretation,
       recommendations,
+      ...phaseFields,
+      wheezes,
+      crackles,
+      filters,
+      heartRate,
     };
   } catch (error) {
     console.error('Error analyzing recording:', error);
@@ -0,0 +1,155 @@
+/**
+ * HTTP API Client
+ * Talks to the backend over JSON HTTP. scripts/api-server.js implements the
+ * same endpoints for local development.
+ */
+
+import { User } from '../context/AppContext';
+import { AnalysisResult } from '@/types/recording';
+import { AuthTokens } from '@/utils/authTokens';
+import { decryptedCopy, deleteDecryptedCopy } from '@/utils/encryption';
+import {
+  ApiClient,
+  ApiError,
+  AuthSession,
+  HealthHistoryEntry,
+  SyncResult,
+} from './apiClient';
+
+const REQUEST_TIMEOUT_MS = 15 * 1000;
+// Uploads get longer, as recordings can be several megabytes
+const UPLOAD_TIMEOUT_MS = 2 * 60 * 1000;
+
+const AUDIO_TYPES: Record<string, string> = {
+  wav: 'audio/wav',
+  m4a: 'audio/mp4',
+  mp4: 'audio/mp4',
+  mp3: 'audio/mpeg',
+};
+
+// A file part of a multipart form, as React Native's FormData accepts it
+interface FormDataFile {
+  uri: string;
+  name: string;
+  type: string;
+}
+
+interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  body?: unknown;
+  accessToken?: string;
+  timeout?: number;
+}
+
+// Read a JSON response, turning error statuses into an ApiError with the server's message
+async function parseResponse<T>(response: Response): Promise<T> {
+  const text = await response.text();
+  let data: unknown;
+  try {
+    data = text ? JSON.parse(text) : undefined;
+  } catch {
+    data = undefined;
+  }
+  if (!response.ok) {
+    const serverMessage =
+      typeof data === 'object' && data !== null && 'error' in data && typeof data.error === 'string'
+        ? data.error
+        : undefined;
+    throw new ApiError(serverMessage ?? `Request failed with status ${response.status}`, response.status);
+  }
+  return data as T;
+}
+
+export function createHttpClient(baseUrl: string): ApiClient {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  async function request<T>(
+    path: string,
+    { method = 'GET', body, accessToken, timeout = REQUEST_TIMEOUT_MS }: RequestOptions = {}
+  ): Promise<T> {
+    const isForm = body instanceof FormData;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeout);
+
+    let response: Response;
+    try {
+      response = await fetch(`${root}${path}`, {
+        method,
+        headers: {
+          Accept: 'application/json',
+          // Let fetch set the multipart boundary for forms
+          ...(body !== undefined && !isForm ? { 'Content-Type': 'application/json' } : {}),
+          ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+        },
+        body: isForm ? body : body !== undefined ? JSON.stringify(body) : undefined,
+        signal: controller.signal,
+      });
+    } catch (error) {
+      console.error(`Error calling ${path}:`, error);
+      throw new ApiError(
+        controller.signal.aborted ? 'The server took too long to respond' : 'Could not reach the server',
+        0
+      );
+    } finally {
+      clearTimeout(timer);
+    }
+    return parseResponse<T>(response);
+  }
+
+  return {
+    login: (email, password) =>
+      request<AuthSession>('/auth/login', { method: 'POST', body: { email, password } }),
+
+    register: (name, email, password) =>
+      request<AuthSession>('/auth/register', { method: 'POST', body: { name, email, password } }),
+
+    refresh: refreshToken =>
+      request<AuthTokens>('/auth/refresh', { method: 'POST', body: { refreshToken } }),
+
+    logout: refreshToken =>
+      request<void>('/auth/logout', { method: 'POST', body: { refreshToken } }),
+
+    requestPasswordReset: email =>
+      request<void>('/auth/password-reset', { method: 'POST', body: { email } }),
+
+    confirmPasswordReset: (email, code, password) =>
+      request<void>('/auth/password-reset/confirm', { method: 'POST', body: { email, code, password } }),
+
+    getCurrentUser: async accessToken =>
+      (await request<{ user: User }>('/auth/me', { accessToken })).user,
+
+    // Upload the audio as a form; the server only ever sees a decrypted copy
+    analyzeRecording: async (accessToken, recordingUri) => {
+      const fileName = recordingUri.split('/').pop() ?? 'recording.wav';
+      const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+      const uploadUri = await decryptedCopy(recordingUri);
+      try {
+        const form = new FormData();
+        const file: FormDataFile = {
+          uri: uploadUri,
+          name: fileName,
+          type: AUDIO_TYPES[extension] ?? 'application/octet-stream',
+        };
+        // React Native's FormData takes file parts, which the DOM typings don't know about
+        form.append('audio', file as unknown as Blob);
+        return await request<AnalysisResult>('/analysis', {
+          method: 'POST',
+          body: form,
+          accessToken,
+          timeout: UPLOAD_TIMEOUT_MS,
+        });
+      } finally {
+        await deleteDecryptedCopy(uploadUri);
+      }
+    },
+
+    syncRecordings: (accessToken, recordings) =>
+      request<SyncResult>('/recordings/sync', { method: 'POST', body: { recordings }, accessToken }),
+
+    updateProfile: async (accessToken, updates) =>
+      (await request<{ user: User }>('/profile', { method: 'PATCH', body: updates, accessToken })).user,
+
+    getHistory: async accessToken =>
+      (await request<{ history: HealthHistoryEntry[] }>('/profile/history', { accessToken })).history,
+  };
+}
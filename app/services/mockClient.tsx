@@ -0,0 +1,259 @@
+/**
+ * Mock API Client
+ * An in-process stand-in for the backend, for working on screens without a
+ * server. Accounts, tokens and synced recordings live in memory. Results are
+ * deterministic: the same calls with the same options give the same answers,
+ * including which calls fail when failures are injected.
+ *
+ * Log in as demo@stethopulse.dev with the password "password", or register
+ * any account. The password reset code is always 123456.
+ */
+
+import { User } from '../context/AppContext';
+import { AnalysisResult } from '@/types/recording';
+import {
+  ApiClient,
+  ApiError,
+  AuthSession,
+  HealthHistoryEntry,
+  SyncedRecording,
+} from './apiClient';
+
+export interface MockClientOptions {
+  latencyMs: number;          // Added to every call
+  failureRate: number;        // Share of calls that fail, 0 to 1
+}
+
+interface MockAccount extends User {
+  password: string;
+}
+
+interface MockToken {
+  email: string;
+  expiresAt: number;
+}
+
+export const MOCK_RESET_CODE = '123456';
+const ACCESS_TOKEN_TTL_MS = 5 * 60 * 1000;
+const DEFAULT_SEED = 1;
+
+const DEMO_ACCOUNT: MockAccount = {
+  id: 'mock-user-1',
+  name: 'Demo User',
+  email: 'demo@stethopulse.dev',
+  password: 'password',
+};
+
+const CONDITIONS = ['Healthy', 'Mild Irregularities', 'Possible Obstruction'];
+
+// Small seeded generator (mulberry32), so injected failures repeat run to run
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Stable hash of a string (FNV-1a), for answers that depend only on the input
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const publicUser = ({ id, name, email }: MockAccount): User => ({ id, name, email });
+
+/**
+ * Create a mock backend. Options are read on every call, so they can change
+ * without losing the accounts registered so far; the seed picks which calls fail.
+ */
+export function createMockClient(
+  getOptions: () => MockClientOptions,
+  seed: number = DEFAULT_SEED
+): ApiClient {
+  const random = seededRandom(seed);
+  const accounts = new Map<string, MockAccount>([[DEMO_ACCOUNT.email, { ...DEMO_ACCOUNT }]]);
+  const accessTokens = new Map<string, MockToken>();
+  const refreshTokens = new Map<string, MockToken>();
+  const resetRequests = new Set<string>();
+  const synced = new Map<string, SyncedRecording[]>();
+  let nextId = 2;
+  let nextToken = 1;
+
+  // Wait out the latency, then fail the call if the generator says so
+  async function call<T>(handler: () => T): Promise<T> {
+    const { latencyMs, failureRate } = getOptions();
+    if (latencyMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, latencyMs));
+    }
+    if (random() < failureRate) {
+      throw random() < 0.5
+        ? new ApiError('Could not reach the server (simulated)', 0)
+        : new ApiError('Service unavailable (simulated)', 503);
+    }
+    return handler();
+  }
+
+  function issueSession(account: MockAccount): AuthSession {
+    const n = nextToken++;
+    accessTokens.set(`mock-access-${n}`, { email: account.email, expiresAt: Date.now() + ACCESS_TOKEN_TTL_MS });
+    refreshTokens.set(`mock-refresh-${n}`, { email: account.email, expiresAt: Infinity });
+    return { user: publicUser(account), accessToken: `mock-access-${n}`, refreshToken: `mock-refresh-${n}` };
+  }
+
+  function authenticate(accessToken: string): MockAccount {
+    const token = accessTokens.get(accessToken);
+    const account = token && accounts.get(token.email);
+    if (!token || !account || token.expiresAt < Date.now()) {
+      throw new ApiError('Access token is missing or expired', 401);
+    }
+    return account;
+  }
+
+  function validatePassword(password: string) {
+    if (password.length < 6) {
+      throw new ApiError('Password must be at least 6 characters', 400);
+    }
+  }
+
+  return {
+    login: (email, password) => call(() => {
+      const account = accounts.get(normalizeEmail(email));
+      if (!account || account.password !== password) {
+        throw new ApiError('Invalid email or password', 401);
+      }
+      return issueSession(account);
+    }),
+
+    register: (name, email, password) => call(() => {
+      email = normalizeEmail(email);
+      if (accounts.has(email)) {
+        throw new ApiError('An account with this email already exists', 409);
+      }
+      validatePassword(password);
+      const account: MockAccount = { id: `mock-user-${nextId++}`, name: name.trim(), email, password };
+      accounts.set(email, account);
+      return issueSession(account);
+    }),
+
+    // Refresh tokens are single use, as on the real server
+    refresh: refreshToken => call(() => {
+      const token = refreshTokens.get(refreshToken);
+      refreshTokens.delete(refreshToken);
+      const account = token && accounts.get(token.email);
+      if (!account) {
+        throw new ApiError('Refresh token is invalid or expired', 401);
+      }
+      const { accessToken, refreshToken: next } = issueSession(account);
+      return { accessToken, refreshToken: next };
+    }),
+
+    logout: refreshToken => call(() => {
+      refreshTokens.delete(refreshToken);
+    }),
+
+    requestPasswordReset: email => call(() => {
+      email = normalizeEmail(email);
+      if (accounts.has(email)) {
+        resetRequests.add(email);
+        console.log(`Mock password reset code for ${email}: ${MOCK_RESET_CODE}`);
+      }
+    }),
+
+    confirmPasswordReset: (email, code, password) => call(() => {
+      email = normalizeEmail(email);
+      const account = accounts.get(email);
+      if (!account || !resetRequests.has(email) || code.trim() !== MOCK_RESET_CODE) {
+        throw new ApiError('The reset code is invalid or has expired', 400);
+      }
+      validatePassword(password);
+      account.password = password;
+      resetRequests.delete(email);
+      // A new password ends every session of the account
+      for (const tokens of [accessTokens, refreshTokens]) {
+        for (const [token, entry] of tokens) {
+          if (entry.email === email) tokens.delete(token);
+        }
+      }
+    }),
+
+    getCurrentUser: accessToken => call(() => publicUser(authenticate(accessToken))),
+
+    // Same file name, same result
+    analyzeRecording: (accessToken, recordingUri) => call((): AnalysisResult => {
+      authenticate(accessToken);
+      const hash = hashString(recordingUri.split('/').pop() ?? recordingUri);
+      const condition = CONDITIONS[hash % CONDITIONS.length];
+      return {
+        condition,
+        confidence: 70 + (hash % 28),
+        respiratoryRate: 12 + ((hash >>> 8) % 9),
+        irregularities: condition !== 'Healthy',
+      };
+    }),
+
+    syncRecordings: (accessToken, recordings) => call(() => {
+      const { email } = authenticate(accessToken);
+      const byId = new Map((synced.get(email) ?? []).map(recording => [recording.id, recording]));
+      recordings.forEach(recording => byId.set(recording.id, recording));
+      synced.set(email, [...byId.values()]);
+      return { synced: recordings.length };
+    }),
+
+    updateProfile: (accessToken, updates) => call(() => {
+      const account = authenticate(accessToken);
+      const email = updates.email !== undefined ? normalizeEmail(updates.email) : account.email;
+      // Check everything before changing anything, so a rejected update leaves the account as it was
+      if (updates.name !== undefined && !updates.name.trim()) {
+        throw new ApiError('Name is required', 400);
+      }
+      if (email !== account.email) {
+        if (!email.includes('@')) {
+          throw new ApiError('Please enter a valid email', 400);
+        }
+        if (accounts.has(email)) {
+          throw new ApiError('An account with this email already exists', 409);
+        }
+      }
+
+      if (updates.name !== undefined) account.name = updates.name.trim();
+      if (email !== account.email) {
+        // Move the account and everything keyed by its email
+        for (const tokens of [accessTokens, refreshTokens]) {
+          tokens.forEach(entry => {
+            if (entry.email === account.email) entry.email = email;
+          });
+        }
+        synced.set(email, synced.get(account.email) ?? []);
+        synced.delete(account.email);
+        resetRequests.delete(account.email);
+        accounts.delete(account.email);
+        account.email = email;
+        accounts.set(email, account);
+      }
+      return publicUser(account);
+    }),
+
+    // Built from the analysed recordings synced so far, newest first
+    getHistory: accessToken => call((): HealthHistoryEntry[] => {
+      const { email } = authenticate(accessToken);
+      return (synced.get(email) ?? [])
+        .filter(recording => recording.analysisResult)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .map(recording => ({
+          date: recording.createdAt.slice(0, 10),
+          status: recording.analysisResult!.condition,
+          score: recording.analysisResult!.confidence,
+        }));
+    }),
+  };
+}
@@ -4,9 +4,7 @@
  */
 
 import * as FileSystem from 'expo-file-system';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Alert } from 'react-native';
-import { Recording } from '../context/AppContext';
+import { encryptFile } from '@/utils/encryption';
 
 // Base directory for app files
 const BASE_DIRECTORY = FileSystem.documentDirectory || '';
@@ -34,7 +32,7 @@ export async function initializeStorage(): Promise<boolean> {
   }
 }
 
-// Save a file to local storage
+// Save an encrypted copy of a file to local storage
 export async function saveFile(
   uri: string,
   directory: string,
@@ -46,6 +44,7 @@ export async function saveFile(
       from: uri,
       to: destinationUri,
     });
+    await encryptFile(destinationUri);
     return destinationUri;
   } catch (error) {
     console.error('Error saving file:', error);
@@ -84,28 +83,6 @@ export async function listFiles(directory: string): Promise<string[]> {
   }
 }
 
-// Store recording metadata
-export async function storeRecordingMetadata(recordings: Recording[]): Promise<boolean> {
-  try {
-    await AsyncStorage.setItem('recordings', JSON.stringify(recordings));
-    return true;
-  } catch (error) {
-    console.error('Error storing recording metadata:', error);
-    return false;
-  }
-}
-
-// Retrieve recording metadata
-export async function getRecordingMetadata(): Promise<Recording[]> {
-  try {
-    const data = await AsyncStorage.getItem('recordings');
-    return data ? JSON.parse(data) : [];
-  } catch (error) {
-    console.error('Error retrieving recording metadata:', error);
-    return [];
-  }
-}
-
 // Check available storage space
 export async function checkStorageSpace(): Promise<{
   available: number;
@@ -0,0 +1,402 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  TextInput,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter, useLocalSearchParams, useFocusEffect } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import {
+  getSessionById,
+  getSessionRecordings,
+  updateSession,
+  deleteSession,
+} from '@/utils/storage';
+import { Recording, Session } from '@/types/recording';
+import { summarizeSession } from '@/utils/sessionSummary';
+import { getSiteLabel } from '@/utils/auscultation';
+
+export default function SessionDetailScreen() {
+  const colorScheme = useColorScheme();
+  const router = useRouter();
+  const params = useLocalSearchParams();
+  const sessionId = params.id as string;
+
+  const colors = Colors[colorScheme ?? 'light'];
+
+  const [session, setSession] = useState<Session | null>(null);
+  const [recordings, setRecordings] = useState<Recording[]>([]);
+  const [patient, setPatient] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadSession = useCallback(async () => {
+    try {
+      const sessionData = await getSessionById(sessionId);
+      if (sessionData) {
+        setSession(sessionData);
+        setPatient(sessionData.patient ?? '');
+        setNotes(sessionData.notes ?? '');
+        setRecordings(await getSessionRecordings(sessionData));
+      } else {
+        Alert.alert('Error', 'Session not found');
+        router.back();
+      }
+    } catch (error) {
+      console.error('Error loading session:', error);
+      Alert.alert('Error', 'Failed to load session');
+      router.back();
+    } finally {
+      setIsLoading(false);
+    }
+  }, [sessionId, router]);
+
+  // Reload on focus so clips recorded into the session show up on return
+  useFocusEffect(
+    useCallback(() => {
+      loadSession();
+    }, [loadSession])
+  );
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleDateString('en-US', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const formatDuration = (seconds: number) => {
+    const mins = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  };
+
+  const handleSaveDetails = async () => {
+    if (!session) return;
+
+    try {
+      const updates = { patient: patient.trim() || undefined, notes: notes.trim() || undefined };
+      await updateSession(session.id, updates);
+      setSession({ ...session, ...updates });
+    } catch (error) {
+      console.error('Error saving session:', error);
+      Alert.alert('Error', 'Failed to save session details');
+    }
+  };
+
+  const handleDelete = () => {
+    if (!session) return;
+
+    Alert.alert(
+      'Delete Session',
+      'The recordings in this session will be kept as individual recordings.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteSession(session.id);
+              router.back();
+            } catch (error) {
+              console.error('Error deleting session:', error);
+              Alert.alert('Error', 'Failed to delete session');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+        <ActivityIndicator size="large" color={colors.tint} style={styles.loader} />
+      </SafeAreaView>
+    );
+  }
+
+  if (!session) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+        <Text style={[styles.errorText, { color: colors.text }]}>Session not found</Text>
+      </SafeAreaView>
+    );
+  }
+
+  const summary = summarizeSession(recordings);
+  const detailsChanged = patient.trim() !== (session.patient ?? '') || notes.trim() !== (session.notes ?? '');
+
+  const renderDetailRow = (label: string, value: string) => (
+    <View style={styles.detailRow}>
+      <Text style={[styles.detailLabel, { color: colors.icon }]}>{label}</Text>
+      <Text style={[styles.detailValue, { color: colors.text }]}>{value}</Text>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: colors.text }]}>Session Details</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <ScrollView>
+        {/* Session Info */}
+        <View style={[styles.card, { backgroundColor: colors.background }]}>
+          <Text style={[styles.sessionDate, { color: colors.icon }]}>
+            {formatDate(session.createdAt)}
+          </Text>
+          <TextInput
+            style={[styles.input, { color: colors.text }]}
+            value={patient}
+            onChangeText={setPatient}
+            placeholder="Patient"
+            placeholderTextColor={colors.icon}
+          />
+          <TextInput
+            style={[styles.input, styles.notesInput, { color: colors.text }]}
+            value={notes}
+            onChangeText={setNotes}
+            placeholder="Context notes (symptoms, position, medication...)"
+            placeholderTextColor={colors.icon}
+            multiline
+          />
+          {detailsChanged && (
+            <TouchableOpacity
+              style={[styles.saveButton, { backgroundColor: colors.tint }]}
+              onPress={handleSaveDetails}
+            >
+              <Text style={styles.saveButtonText}>Save</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {/* Summary */}
+        <View style={[styles.card, { backgroundColor: colors.background }]}>
+          <Text style={[styles.cardTitle, { color: colors.text }]}>Summary</Text>
+          {renderDetailRow('Recordings', `${summary.analyzedCount} of ${summary.recordingCount} analyzed`)}
+          {renderDetailRow('Total Duration', formatDuration(summary.totalDuration))}
+          {summary.meanRespiratoryRate !== null &&
+            renderDetailRow('Respiratory Rate', `${summary.meanRespiratoryRate.toFixed(0)} breaths/min`)}
+          {summary.meanHeartRate !== null &&
+            renderDetailRow('Heart Rate', `${summary.meanHeartRate.toFixed(0)} bpm`)}
+          {summary.analyzedCount > 0 && renderDetailRow('Wheezes', `${summary.wheezeCount}`)}
+          {summary.analyzedCount > 0 &&
+            renderDetailRow('Crackles', `${summary.fineCrackleCount} fine, ${summary.coarseCrackleCount} coarse`)}
+          {summary.coughCount > 0 && renderDetailRow('Coughs', `${summary.coughCount}`)}
+          {summary.prolongedExpiration && renderDetailRow('Expiration', 'Prolonged')}
+          {Object.entries(summary.conditions).map(([condition, count]) =>
+            <React.Fragment key={condition}>
+              {renderDetailRow(condition, `${count} ${count === 1 ? 'recording' : 'recordings'}`)}
+            </React.Fragment>
+          )}
+          {summary.findings.length > 0 && (
+            <Text style={[styles.findings, { color: colors.text }]}>
+              Findings at {summary.findings
+                .map(finding => finding.site ? getSiteLabel(finding.site) : 'unknown site')
+                .join(', ')}
+            </Text>
+          )}
+        </View>
+
+        {/* Recordings */}
+        <View style={[styles.card, { backgroundColor: colors.background }]}>
+          <Text style={[styles.cardTitle, { color: colors.text }]}>Recordings</Text>
+          {recordings.length === 0 && (
+            <Text style={[styles.detailLabel, { color: colors.icon }]}>No recordings yet</Text>
+          )}
+          {recordings.map(recording => (
+            <TouchableOpacity
+              key={recording.id}
+              style={styles.detailRow}
+              onPress={() => router.push(`/recording/${recording.id}`)}
+            >
+              <Text style={[styles.detailLabel, { color: colors.text }]}>
+                {recording.site
+                  ? getSiteLabel(recording.site)
+                  : recording.type === 'cough' ? 'Cough' : 'Breath'}
+              </Text>
+              <Text style={[styles.detailValue, { color: colors.icon }]}>
+                {recording.analysisResult?.condition ?? formatDuration(recording.duration)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+          <View style={styles.recordButtons}>
+            {(['cough', 'breath'] as const).map(type => (
+              <TouchableOpacity
+                key={type}
+                style={[styles.recordButton, { borderColor: colors.tint }]}
+                onPress={() => router.push(`/(tabs)/record?type=${type}&sessionId=${session.id}`)}
+              >
+                <Ionicons name="mic" size={18} color={colors.tint} />
+                <Text style={[styles.recordButtonText, { color: colors.tint }]}>
+                  Record {type === 'cough' ? 'Cough' : 'Breath'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        {/* Actions */}
+        <View style={styles.actionsContainer}>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.deleteButton]}
+            onPress={handleDelete}
+          >
+            <Ionicons name="trash-outline" size={20} color="#FF6B6B" />
+            <Text style={styles.deleteButtonText}>Delete Session</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loader: {
+    flex: 1,
+    justifyContent: 'center',
+  },
+  errorText: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 16,
+    marginTop: 100,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  card: {
+    marginHorizontal: 20,
+    marginVertical: 10,
+    padding: 20,
+    borderRadius: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 8,
+  },
+  sessionDate: {
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#E5E5E5',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  notesInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  saveButton: {
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 8,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+  },
+  detailLabel: {
+    fontSize: 16,
+  },
+  detailValue: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  findings: {
+    fontSize: 14,
+    marginTop: 12,
+  },
+  recordButtons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  recordButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  recordButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  actionsContainer: {
+    padding: 20,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  deleteButton: {
+    backgroundColor: '#FFF5F5',
+    borderWidth: 1,
+    borderColor: '#FFE5E5',
+  },
+  deleteButtonText: {
+    color: '#FF6B6B',
+    fontSize: 16,
+    fontWeight: '500',
+    marginLeft: 8,
+  },
+});
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { PinPad } from '@/components/PinPad';
+import { MIN_PIN_LENGTH, MAX_PIN_LENGTH, setPin, clearPin, verifyPin } from '@/utils/appLock';
+
+type PinMode = 'set' | 'change' | 'remove';
+type Step = 'current' | 'new' | 'confirm';
+
+const TITLES: Record<PinMode, string> = {
+  set: 'Set PIN',
+  change: 'Change PIN',
+  remove: 'Turn Off App Lock',
+};
+
+export default function SetPinScreen() {
+  const colorScheme = useColorScheme();
+  const router = useRouter();
+  const params = useLocalSearchParams();
+  const mode = (params.mode as PinMode | undefined) ?? 'set';
+
+  const colors = Colors[colorScheme ?? 'light'];
+
+  // Changing or removing the PIN needs the current one first
+  const [step, setStep] = useState<Step>(mode === 'set' ? 'new' : 'current');
+  const [newPin, setNewPin] = useState('');
+  const [error, setError] = useState<string>();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleCurrent = async (pin: string) => {
+    setIsSaving(true);
+    try {
+      const result = await verifyPin(pin);
+      if (!result.ok) {
+        setError(
+          result.lockedUntil
+            ? `Too many attempts. Try again after ${new Date(result.lockedUntil).toLocaleTimeString()}.`
+            : 'Incorrect PIN.'
+        );
+        return;
+      }
+      setError(undefined);
+      if (mode === 'remove') {
+        await clearPin();
+        Alert.alert('App Lock Off', 'StethoPulse will no longer ask for a PIN.');
+        router.back();
+      } else {
+        setStep('new');
+      }
+    } catch (error) {
+      console.error('Error verifying PIN:', error);
+      setError('Could not check the PIN. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleNew = (pin: string) => {
+    setNewPin(pin);
+    setError(undefined);
+    setStep('confirm');
+  };
+
+  const handleConfirm = async (pin: string) => {
+    if (pin !== newPin) {
+      setNewPin('');
+      setError('PINs did not match. Please start again.');
+      setStep('new');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await setPin(pin);
+      Alert.alert('PIN Saved', 'StethoPulse will ask for this PIN when it locks.');
+      router.back();
+    } catch (error) {
+      console.error('Error saving PIN:', error);
+      setError('Failed to save the PIN');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const prompts: Record<Step, { title: string; message: string; onSubmit: (pin: string) => void }> = {
+    current: { title: 'Enter Current PIN', message: 'Confirm it is you', onSubmit: handleCurrent },
+    new: {
+      title: 'Enter New PIN',
+      message: `Use ${MIN_PIN_LENGTH} to ${MAX_PIN_LENGTH} digits`,
+      onSubmit: handleNew,
+    },
+    confirm: { title: 'Confirm New PIN', message: 'Enter the same PIN again', onSubmit: handleConfirm },
+  };
+  const prompt = prompts[step];
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: colors.text }]}>{TITLES[mode]}</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <View style={styles.content}>
+        <PinPad
+          key={step}
+          title={prompt.title}
+          message={prompt.message}
+          error={error}
+          disabled={isSaving}
+          onSubmit={prompt.onSubmit}
+        />
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  headerSpacer: {
+    width: 24,
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+  },
+});
@@ -0,0 +1,354 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import {
+  ReconciliationReport,
+  StoredFile,
+  scanStorage,
+  importOrphanedAudio,
+  deleteFiles,
+  removeMissingRecordings,
+} from '@/utils/reconciliation';
+
+interface SectionAction {
+  label: string;
+  destructive?: boolean;
+  onPress: () => void;
+}
+
+export default function StorageCheckScreen() {
+  const colorScheme = useColorScheme();
+  const router = useRouter();
+  const colors = Colors[colorScheme ?? 'light'];
+
+  const [report, setReport] = useState<ReconciliationReport | null>(null);
+  const [isScanning, setIsScanning] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const scan = useCallback(async () => {
+    setIsScanning(true);
+    try {
+      setReport(await scanStorage());
+    } catch (error) {
+      console.error('Error scanning storage:', error);
+      Alert.alert('Error', 'Failed to scan storage');
+    } finally {
+      setIsScanning(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    scan();
+  }, [scan]);
+
+  const formatSize = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  };
+
+  const totalSize = (files: StoredFile[]) =>
+    formatSize(files.reduce((sum, file) => sum + file.size, 0));
+
+  // Run a repair, then rescan so the lists reflect what is left
+  const runAction = async (action: () => Promise<string>) => {
+    setIsWorking(true);
+    try {
+      const message = await action();
+      Alert.alert('Done', message);
+    } catch (error) {
+      console.error('Error repairing storage:', error);
+      Alert.alert('Error', 'Failed to repair storage');
+    } finally {
+      setIsWorking(false);
+      await scan();
+    }
+  };
+
+  const confirmDelete = (title: string, message: string, action: () => Promise<string>) => {
+    Alert.alert(title, message, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => runAction(action) },
+    ]);
+  };
+
+  const handleImportAudio = (files: StoredFile[]) => {
+    runAction(async () => {
+      const { imported, failed } = await importOrphanedAudio(files);
+      const lines = [`${imported.length} of ${files.length} files imported as recordings.`];
+      for (const failure of failed) {
+        lines.push(`${failure.file.name}: ${failure.error}`);
+      }
+      return lines.join('\n');
+    });
+  };
+
+  const handleDeleteFiles = (files: StoredFile[], description: string) => {
+    confirmDelete(
+      'Delete Files',
+      `Delete ${files.length} ${description}? This action cannot be undone.`,
+      async () => `${await deleteFiles(files)} files deleted.`
+    );
+  };
+
+  if (isScanning && !report) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+        <ActivityIndicator size="large" color={colors.tint} style={styles.loader} />
+      </SafeAreaView>
+    );
+  }
+
+  const renderSection = (
+    title: string,
+    description: string,
+    rows: { key: string; label: string; value: string }[],
+    actions: SectionAction[]
+  ) => (
+    <View style={[styles.card, { backgroundColor: colors.background }]}>
+      <Text style={[styles.cardTitle, { color: colors.text }]}>{title}</Text>
+      <Text style={[styles.cardDescription, { color: colors.icon }]}>{description}</Text>
+      {rows.length === 0 ? (
+        <Text style={[styles.detailLabel, { color: colors.icon }]}>None found</Text>
+      ) : (
+        <>
+          {rows.map(row => (
+            <View key={row.key} style={styles.detailRow}>
+              <Text style={[styles.detailLabel, { color: colors.text }]} numberOfLines={1}>
+                {row.label}
+              </Text>
+              <Text style={[styles.detailValue, { color: colors.icon }]}>{row.value}</Text>
+            </View>
+          ))}
+          <View style={styles.actionRow}>
+            {actions.map(action => (
+              <TouchableOpacity
+                key={action.label}
+                style={[
+                  styles.actionButton,
+                  action.destructive
+                    ? styles.deleteButton
+                    : { borderColor: colors.tint },
+                ]}
+                onPress={action.onPress}
+                disabled={isWorking}
+              >
+                <Text
+                  style={[
+                    styles.actionButtonText,
+                    { color: action.destructive ? '#FF6B6B' : colors.tint },
+                  ]}
+                >
+                  {action.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </>
+      )}
+    </View>
+  );
+
+  const fileRows = (files: StoredFile[]) =>
+    files.map(file => ({ key: file.uri, label: file.name, value: formatSize(file.size) }));
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: colors.text }]}>Storage Check</Text>
+        <TouchableOpacity onPress={scan} disabled={isScanning || isWorking}>
+          <Ionicons name="refresh" size={24} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      {(isScanning || isWorking) && (
+        <ActivityIndicator color={colors.tint} style={styles.progress} />
+      )}
+
+      {report && (
+        <ScrollView>
+          <Text style={[styles.scannedAt, { color: colors.icon }]}>
+            Last checked {new Date(report.scannedAt).toLocaleString()}
+          </Text>
+
+          {renderSection(
+            'Orphaned Audio',
+            `Audio files with no recording entry (${totalSize(report.orphanedAudio)})`,
+            fileRows(report.orphanedAudio),
+            [
+              { label: 'Import All', onPress: () => handleImportAudio(report.orphanedAudio) },
+              {
+                label: 'Delete All',
+                destructive: true,
+                onPress: () => handleDeleteFiles(report.orphanedAudio, 'orphaned audio files'),
+              },
+            ]
+          )}
+
+          {renderSection(
+            'Missing Audio',
+            'Recordings whose audio file no longer exists',
+            report.missingAudio.map(recording => ({
+              key: recording.id,
+              label: new Date(recording.createdAt).toLocaleString(),
+              value: recording.type === 'cough' ? 'Cough' : 'Breath',
+            })),
+            [
+              {
+                label: 'Remove All',
+                destructive: true,
+                onPress: () => confirmDelete(
+                  'Remove Recordings',
+                  `Remove ${report.missingAudio.length} recordings whose audio is missing, along with their analysis results?`,
+                  async () => `${await removeMissingRecordings(report.missingAudio)} recordings removed.`
+                ),
+              },
+            ]
+          )}
+
+          {renderSection(
+            'Orphaned Spectrograms',
+            `Cached spectrograms of deleted recordings (${totalSize(report.orphanedSpectrograms)})`,
+            fileRows(report.orphanedSpectrograms),
+            [
+              {
+                label: 'Delete All',
+                destructive: true,
+                onPress: () => handleDeleteFiles(report.orphanedSpectrograms, 'cached spectrograms'),
+              },
+            ]
+          )}
+
+          {renderSection(
+            'Other Files',
+            `Non-audio files in the recordings folder (${totalSize(report.otherFiles)})`,
+            fileRows(report.otherFiles),
+            [
+              {
+                label: 'Delete All',
+                destructive: true,
+                onPress: () => handleDeleteFiles(report.otherFiles, 'files'),
+              },
+            ]
+          )}
+
+          {renderSection(
+            'Exports',
+            `Previously exported files (${totalSize(report.exports)})`,
+            fileRows(report.exports),
+            [
+              {
+                label: 'Delete All',
+                destructive: true,
+                onPress: () => handleDeleteFiles(report.exports, 'exported files'),
+              },
+            ]
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loader: {
+    flex: 1,
+    justifyContent: 'center',
+  },
+  progress: {
+    marginBottom: 8,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  scannedAt: {
+    fontSize: 14,
+    marginHorizontal: 20,
+    marginBottom: 4,
+  },
+  card: {
+    marginHorizontal: 20,
+    marginVertical: 10,
+    padding: 20,
+    borderRadius: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 4,
+  },
+  cardDescription: {
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5E5',
+  },
+  detailLabel: {
+    flex: 1,
+    fontSize: 16,
+    marginRight: 12,
+  },
+  detailValue: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  actionButton: {
+    flex: 1,
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  deleteButton: {
+    backgroundColor: '#FFF5F5',
+    borderColor: '#FFE5E5',
+  },
+  actionButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -19,6 +19,18 @@ export const strings = {
     passwordMatch: 'Passwords must match',
     invalidEmail: 'Please enter a valid email',
     passwordLength: 'Password must be at least 6 characters',
+    invalidCredentials: 'Invalid email or password',
+    resetTitle: 'Reset Password',
+    resetInstructions: "Enter your account's email and we'll send you a code to reset your password.",
+    sendResetCode: 'Send Reset Code',
+    resetCodeSent: 'If an account exists for this email, a reset code is on its way.',
+    resetCode: 'Reset Code',
+    resetCodeRequired: 'Reset code is required',
+    newPassword: 'New Password',
+    resetPassword: 'Reset Password',
+    resetSuccess: 'Your password has been reset. Log in with your new password.',
+    resendCode: "Didn't get a code? Send again",
+    backToLogin: 'Back to Log In',
   },
   
   // Onboarding
@@ -63,6 +75,11 @@ export const strings = {
     stop: 'Stop',
     tooShort: 'Recording too short',
     holdLonger: 'Please record for at least 3 seconds',
+    qualityWarning: 'Recording quality could be better',
+    qualityFailed: 'Recording quality too low',
+    reRecord: 'Re-record',
+    saveAnyway: 'Save Anyway',
+    discard: 'Discard',
     tipsTitle: 'Tips for Better Results',
     tip1: 'Find a quiet environment with minimal background noise',
     tip2: 'Hold your device about 6 inches from your mouth',
@@ -107,6 +124,33 @@ export const strings = {
     deleteError: 'Failed to delete recording',
     sendToServer: 'Send to Server',
     sendingToServer: 'Sending to server...',
+    breathPhases: 'Breath Phases',
+    inspiration: 'Inspiration',
+    expiration: 'Expiration',
+    meanInspiration: 'Mean inspiration',
+    meanExpiration: 'Mean expiration',
+    ieRatio: 'I:E ratio',
+    wheeze: 'Wheeze',
+    wheezes: 'Wheezes',
+    wheezesDetected: 'Detected',
+    inspiratoryCoverage: 'Of inspiration',
+    expiratoryCoverage: 'Of expiration',
+    crackles: 'Crackles',
+    fineCrackle: 'Fine crackles',
+    coarseCrackle: 'Coarse crackles',
+    fine: 'fine',
+    coarse: 'coarse',
+    heartRate: 'Heart Rate',
+    beatsPerMinute: 'beats per minute',
+    filters: 'Filters',
+    noFilters: 'None',
+    filterNames: {
+      dcRemoval: 'DC removal',
+      notch: 'Mains hum notch',
+      bandPass: 'Band-pass',
+      noiseReduction: 'Noise reduction',
+      heartSuppression: 'Heart sound removal',
+    },
   },
   
   // History screen
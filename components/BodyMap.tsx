@@ -0,0 +1,122 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import Svg, { Path, Circle, G, Text as SvgText } from 'react-native-svg';
+
+import { theme } from '@/app/constants/Theme';
+import { AUSCULTATION_SITES, AuscultationSite, BodySurface } from '@/utils/auscultation';
+
+interface BodyMapProps {
+  sites: AuscultationSite[];              // Sites in the protocol, in visiting order
+  activeSite?: AuscultationSite;
+  completedSites?: AuscultationSite[];
+  onPressSite?: (site: AuscultationSite) => void;
+  width: number;
+}
+
+const VIEW_GAP = 16;
+const ASPECT_RATIO = 1.3;
+const SITE_RADIUS = 11;
+
+// Torso outline in unit coordinates: neck, shoulders, flanks and waist
+const TORSO_PATH = [
+  'M 0.38 0.02',
+  'Q 0.5 0.1 0.62 0.02',
+  'L 0.64 0.07',
+  'Q 0.9 0.09 0.95 0.2',
+  'L 0.86 0.96',
+  'Q 0.5 1.0 0.14 0.96',
+  'L 0.05 0.2',
+  'Q 0.1 0.09 0.36 0.07',
+  'Z',
+].join(' ');
+
+function scalePath(path: string, width: number, height: number): string {
+  let axis = 0;
+  return path.replace(/-?\d*\.?\d+/g, value => {
+    const scaled = parseFloat(value) * (axis % 2 === 0 ? width : height);
+    axis++;
+    return scaled.toFixed(1);
+  });
+}
+
+// Front and back torso diagrams with the protocol's listening sites
+export function BodyMap({
+  sites,
+  activeSite,
+  completedSites = [],
+  onPressSite,
+  width,
+}: BodyMapProps) {
+  const viewWidth = (width - VIEW_GAP) / 2;
+  const viewHeight = viewWidth * ASPECT_RATIO;
+  const torso = scalePath(TORSO_PATH, viewWidth, viewHeight);
+
+  const renderView = (surface: BodySurface, title: string) => (
+    <View style={styles.view}>
+      <Svg width={viewWidth} height={viewHeight}>
+        <Path d={torso} fill={theme.colors.surface} stroke={theme.colors.border} strokeWidth={2} />
+        {AUSCULTATION_SITES.filter(site => site.surface === surface).map(site => {
+          const order = sites.indexOf(site.id);
+          const included = order >= 0;
+          const active = site.id === activeSite;
+          const done = completedSites.includes(site.id);
+          const fill = active
+            ? theme.colors.primary
+            : done ? theme.colors.success : included ? theme.colors.background : theme.colors.surface;
+          const stroke = included ? (done ? theme.colors.success : theme.colors.primary) : theme.colors.inactive;
+          const cx = site.x * viewWidth;
+          const cy = site.y * viewHeight;
+
+          return (
+            <G key={site.id} onPress={onPressSite ? () => onPressSite(site.id) : undefined}>
+              <Circle
+                cx={cx}
+                cy={cy}
+                r={active ? SITE_RADIUS + 3 : SITE_RADIUS}
+                fill={fill}
+                stroke={stroke}
+                strokeWidth={2}
+                strokeDasharray={included ? undefined : '3 3'}
+              />
+              {included && (
+                <SvgText
+                  x={cx}
+                  y={cy + 4}
+                  fontSize={11}
+                  fontWeight="bold"
+                  textAnchor="middle"
+                  fill={active || done ? '#fff' : theme.colors.primary}
+                >
+                  {order + 1}
+                </SvgText>
+              )}
+            </G>
+          );
+        })}
+      </Svg>
+      <Text style={styles.viewTitle}>{title}</Text>
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, { width }]}>
+      {renderView('anterior', 'Front')}
+      {renderView('posterior', 'Back')}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  view: {
+    alignItems: 'center',
+  },
+  viewTitle: {
+    marginTop: theme.spacing.xs,
+    fontSize: theme.typography.fontSize.s,
+    color: theme.colors.textSecondary,
+  },
+});
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { MIN_PIN_LENGTH, MAX_PIN_LENGTH } from '@/utils/appLock';
+
+type PinPadProps = {
+  title: string;
+  message?: string;
+  error?: string;
+  disabled?: boolean;
+  onSubmit: (pin: string) => void;
+};
+
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', 'delete', '0', 'submit'];
+
+// Numeric keypad with masked entry; the PIN is cleared after each submit
+export function PinPad({ title, message, error, disabled, onSubmit }: PinPadProps) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const [pin, setPin] = useState('');
+
+  const canSubmit = !disabled && pin.length >= MIN_PIN_LENGTH;
+
+  const handleKey = (key: string) => {
+    if (disabled) return;
+    if (key === 'delete') {
+      setPin(current => current.slice(0, -1));
+    } else if (key === 'submit') {
+      if (!canSubmit) return;
+      onSubmit(pin);
+      setPin('');
+    } else if (pin.length < MAX_PIN_LENGTH) {
+      setPin(current => current + key);
+    }
+  };
+
+  const renderKey = (key: string) => {
+    let content: React.ReactNode;
+    if (key === 'delete') {
+      content = <Ionicons name="backspace-outline" size={28} color={colors.text} />;
+    } else if (key === 'submit') {
+      content = (
+        <Ionicons
+          name="checkmark-circle"
+          size={40}
+          color={canSubmit ? colors.tint : colors.icon}
+        />
+      );
+    } else {
+      content = <Text style={[styles.keyText, { color: colors.text }]}>{key}</Text>;
+    }
+
+    return (
+      <TouchableOpacity
+        key={key}
+        style={[styles.key, key.length === 1 && { borderColor: colors.icon }]}
+        onPress={() => handleKey(key)}
+        disabled={disabled}
+      >
+        {content}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.title, { color: colors.text }]}>{title}</Text>
+      {message && <Text style={[styles.message, { color: colors.icon }]}>{message}</Text>}
+
+      <View style={styles.dots}>
+        {Array.from({ length: Math.max(pin.length, MIN_PIN_LENGTH) }, (_, i) => (
+          <View
+            key={i}
+            style={[
+              styles.dot,
+              { borderColor: colors.tint },
+              i < pin.length && { backgroundColor: colors.tint },
+            ]}
+          />
+        ))}
+      </View>
+
+      <Text style={styles.error}>{error ?? ''}</Text>
+
+      <View style={styles.keypad}>{KEYS.map(renderKey)}</View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    paddingHorizontal: 20,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    textAlign: 'center',
+  },
+  message: {
+    fontSize: 16,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  dots: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 32,
+  },
+  dot: {
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+    borderWidth: 2,
+  },
+  error: {
+    color: '#FF6B6B',
+    fontSize: 14,
+    minHeight: 20,
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  keypad: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    width: 280,
+    marginTop: 16,
+  },
+  key: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    margin: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  keyText: {
+    fontSize: 28,
+    fontWeight: '500',
+  },
+});
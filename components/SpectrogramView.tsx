@@ -0,0 +1,479 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  PanResponder,
+  GestureResponderEvent,
+} from 'react-native';
+import Svg, {
+  Defs,
+  G,
+  Line,
+  LinearGradient,
+  Rect,
+  Stop,
+  Text as SvgText,
+} from 'react-native-svg';
+
+import { theme } from '@/app/constants/Theme';
+import { Spectrogram } from '@/utils/spectrogram';
+
+// Time span highlighted over the heatmap, e.g. a breath phase
+export interface SpectrogramRegion {
+  start: number;  // Seconds
+  end: number;    // Seconds
+  color: string;
+}
+
+// Instant marked along the bottom of the heatmap, e.g. a crackle
+export interface SpectrogramMarker {
+  time: number;   // Seconds
+  color: string;
+}
+
+interface SpectrogramViewProps {
+  spectrogram: Spectrogram;
+  width: number;
+  height?: number;            // Height of the heatmap area, excluding axes and legend
+  playbackPosition?: number;  // Seconds; draws a playhead when provided
+  dynamicRange?: number;      // dB below the peak mapped onto the colour scale
+  regions?: SpectrogramRegion[];
+  markers?: SpectrogramMarker[];
+}
+
+const FREQUENCY_AXIS_WIDTH = 40;
+const TIME_AXIS_HEIGHT = 20;
+const LEGEND_HEIGHT = 30;
+const COLUMN_WIDTH = 3;
+const MAX_ROWS = 64;
+const COLOR_LEVELS = 24;
+const MIN_VIEW_SECONDS = 0.5;
+const AXIS_FONT_SIZE = 10;
+const REGION_STRIP_HEIGHT = 4;
+const REGION_OPACITY = 0.18;
+const MARKER_HEIGHT = 12;
+
+const TIME_STEPS = [0.1, 0.2, 0.5, 1, 2, 5, 10, 15, 30, 60, 120];
+const FREQUENCY_STEPS = [50, 100, 200, 250, 500, 1000];
+
+function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+// Interpolate the theme gradient into a fixed palette so adjacent cells can be merged
+const PALETTE: string[] = (() => {
+  const stops = theme.colors.spectrogram.map(hexToRgb);
+  const palette: string[] = [];
+  for (let level = 0; level < COLOR_LEVELS; level++) {
+    const position = (level / (COLOR_LEVELS - 1)) * (stops.length - 1);
+    const index = Math.min(stops.length - 2, Math.floor(position));
+    const t = position - index;
+    const [r, g, b] = stops[index].map((c, i) => Math.round(c + (stops[index + 1][i] - c) * t));
+    palette.push(`rgb(${r},${g},${b})`);
+  }
+  return palette;
+})();
+
+// Pick the smallest step that keeps the number of ticks at or below `maxTicks`
+function pickStep(span: number, steps: number[], maxTicks: number): number {
+  return steps.find(step => span / step <= maxTicks) ?? steps[steps.length - 1];
+}
+
+function formatFrequency(hz: number): string {
+  return hz >= 1000 ? `${(hz / 1000).toFixed(hz % 1000 === 0 ? 0 : 1)}k` : `${hz}`;
+}
+
+// Keep the visible window inside the recording and above the minimum zoom span
+function clampView(start: number, span: number, duration: number) {
+  const clampedSpan = Math.min(duration, Math.max(Math.min(MIN_VIEW_SECONDS, duration), span));
+  const clampedStart = Math.min(duration - clampedSpan, Math.max(0, start));
+  return { start: clampedStart, span: clampedSpan };
+}
+
+interface HeatmapRun {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  level: number;
+}
+
+export function SpectrogramView({
+  spectrogram,
+  width,
+  height = 160,
+  playbackPosition,
+  dynamicRange = 60,
+  regions = [],
+  markers = [],
+}: SpectrogramViewProps) {
+  const duration = spectrogram.duration || spectrogram.frames * spectrogram.frameDuration;
+  const plotWidth = Math.max(1, width - FREQUENCY_AXIS_WIDTH);
+  const plotHeight = height;
+
+  const [view, setView] = useState({ start: 0, span: duration });
+  const viewRef = useRef(view);
+  viewRef.current = view;
+  const durationRef = useRef(duration);
+  durationRef.current = duration;
+  const plotWidthRef = useRef(plotWidth);
+  plotWidthRef.current = plotWidth;
+
+  const gestureRef = useRef({ start: 0, span: duration, distance: 0, active: false });
+
+  // Reset zoom when a different recording is shown
+  useEffect(() => {
+    setView({ start: 0, span: duration });
+  }, [spectrogram, duration]);
+
+  const touchDistance = (event: GestureResponderEvent) => {
+    const [a, b] = event.nativeEvent.touches;
+    return Math.hypot(a.pageX - b.pageX, a.pageY - b.pageY);
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => false,
+      onMoveShouldSetPanResponder: (event, gesture) =>
+        event.nativeEvent.touches.length >= 2 || Math.abs(gesture.dx) > Math.abs(gesture.dy) + 4,
+      onPanResponderGrant: () => {
+        gestureRef.current = {
+          start: viewRef.current.start,
+          span: viewRef.current.span,
+          distance: 0,
+          active: true,
+        };
+      },
+      onPanResponderMove: (event, gesture) => {
+        const g = gestureRef.current;
+
+        if (event.nativeEvent.touches.length >= 2) {
+          // Pinch: zoom around the centre of the view at gesture start
+          const distance = touchDistance(event);
+          if (g.distance === 0) {
+            g.distance = distance;
+            return;
+          }
+          const centre = g.start + g.span / 2;
+          const span = (g.span * g.distance) / Math.max(1, distance);
+          setView(clampView(centre - span / 2, span, durationRef.current));
+        } else {
+          // Drag: pan through time
+          const offset = (-gesture.dx / plotWidthRef.current) * g.span;
+          setView(clampView(g.start + offset, g.span, durationRef.current));
+        }
+      },
+      onPanResponderRelease: () => {
+        gestureRef.current.active = false;
+      },
+      onPanResponderTerminate: () => {
+        gestureRef.current.active = false;
+      },
+      onPanResponderTerminationRequest: () => false,
+    })
+  ).current;
+
+  // Keep the playhead visible while zoomed in
+  useEffect(() => {
+    if (playbackPosition === undefined || gestureRef.current.active) return;
+    const { start, span } = viewRef.current;
+    if (span < duration && (playbackPosition < start || playbackPosition > start + span)) {
+      setView(clampView(playbackPosition, span, duration));
+    }
+  }, [playbackPosition, duration]);
+
+  const peakDb = spectrogram.maxDb;
+  const floorDb = Math.max(spectrogram.minDb, peakDb - dynamicRange);
+
+  // Downsample the visible window to screen resolution and merge equal-colour runs per row
+  const runs = useMemo<HeatmapRun[]>(() => {
+    const { frames, bins, data, frameDuration, frameOffset } = spectrogram;
+    if (frames === 0 || bins === 0) return [];
+
+    const columns = Math.max(1, Math.floor(plotWidth / COLUMN_WIDTH));
+    const rows = Math.min(bins, MAX_ROWS);
+    const columnWidth = plotWidth / columns;
+    const rowHeight = plotHeight / rows;
+    const range = peakDb - floorDb || 1;
+
+    const frameAt = (t: number) =>
+      Math.min(frames - 1, Math.max(0, Math.round((t - frameOffset) / frameDuration)));
+
+    const levels = new Uint8Array(columns * rows);
+    for (let column = 0; column < columns; column++) {
+      const f0 = frameAt(view.start + (column * view.span) / columns);
+      const f1 = Math.max(f0 + 1, frameAt(view.start + ((column + 1) * view.span) / columns));
+      for (let row = 0; row < rows; row++) {
+        const b0 = Math.floor((row * bins) / rows);
+        const b1 = Math.max(b0 + 1, Math.floor(((row + 1) * bins) / rows));
+        let peak = -Infinity;
+        for (let frame = f0; frame < f1; frame++) {
+          for (let bin = b0; bin < b1; bin++) {
+            const value = data[frame * bins + bin];
+            if (value > peak) peak = value;
+          }
+        }
+        const normalized = Math.min(1, Math.max(0, (peak - floorDb) / range));
+        levels[row * columns + column] = Math.round(normalized * (COLOR_LEVELS - 1));
+      }
+    }
+
+    const result: HeatmapRun[] = [];
+    for (let row = 0; row < rows; row++) {
+      // Low frequencies at the bottom
+      const y = plotHeight - (row + 1) * rowHeight;
+      let runStart = 0;
+      for (let column = 1; column <= columns; column++) {
+        const level = levels[row * columns + runStart];
+        if (column === columns || levels[row * columns + column] !== level) {
+          result.push({
+            x: runStart * columnWidth,
+            y,
+            width: (column - runStart) * columnWidth + 0.5,
+            height: rowHeight + 0.5,
+            level,
+          });
+          runStart = column;
+        }
+      }
+    }
+    return result;
+  }, [spectrogram, view, plotWidth, plotHeight, peakDb, floorDb]);
+
+  const frequencyTicks = useMemo(() => {
+    const { minFrequency, maxFrequency } = spectrogram;
+    const step = pickStep(maxFrequency - minFrequency, FREQUENCY_STEPS, 5);
+    const ticks: number[] = [];
+    for (let f = Math.ceil(minFrequency / step) * step; f <= maxFrequency; f += step) {
+      ticks.push(f);
+    }
+    return ticks;
+  }, [spectrogram]);
+
+  const timeTicks = useMemo(() => {
+    const step = pickStep(view.span, TIME_STEPS, 6);
+    const ticks: number[] = [];
+    for (let t = Math.ceil(view.start / step) * step; t <= view.start + view.span + 1e-6; t += step) {
+      ticks.push(t);
+    }
+    return { ticks, step };
+  }, [view]);
+
+  const frequencyToY = (hz: number) => {
+    const { minFrequency, maxFrequency } = spectrogram;
+    const span = maxFrequency - minFrequency || 1;
+    return plotHeight - ((hz - minFrequency) / span) * plotHeight;
+  };
+
+  const timeToX = (t: number) => FREQUENCY_AXIS_WIDTH + ((t - view.start) / view.span) * plotWidth;
+
+  const showPlayhead =
+    playbackPosition !== undefined &&
+    playbackPosition >= view.start &&
+    playbackPosition <= view.start + view.span;
+
+  const isZoomed = view.span < duration - 1e-3;
+  const totalHeight = plotHeight + TIME_AXIS_HEIGHT + LEGEND_HEIGHT;
+  const legendWidth = plotWidth * 0.6;
+  const legendY = plotHeight + TIME_AXIS_HEIGHT + 6;
+
+  return (
+    <View style={{ width, height: totalHeight }} {...panResponder.panHandlers}>
+      <Svg width={width} height={totalHeight}>
+        <Defs>
+          <LinearGradient id="spectrogramLegend" x1="0" y1="0" x2="1" y2="0">
+            {theme.colors.spectrogram.map((color, index) => (
+              <Stop
+                key={color}
+                offset={index / (theme.colors.spectrogram.length - 1)}
+                stopColor={color}
+              />
+            ))}
+          </LinearGradient>
+        </Defs>
+
+        {/* Heatmap */}
+        <G x={FREQUENCY_AXIS_WIDTH}>
+          <Rect x={0} y={0} width={plotWidth} height={plotHeight} fill={PALETTE[0]} />
+          {runs.map((run, index) => (
+            <Rect
+              key={index}
+              x={run.x}
+              y={run.y}
+              width={run.width}
+              height={run.height}
+              fill={PALETTE[run.level]}
+            />
+          ))}
+        </G>
+
+        {/* Highlighted regions */}
+        {regions.map((region, index) => {
+          const start = Math.max(region.start, view.start);
+          const end = Math.min(region.end, view.start + view.span);
+          if (end <= start) return null;
+          const x = timeToX(start);
+          const regionWidth = timeToX(end) - x;
+          return (
+            <G key={`r-${index}`}>
+              <Rect
+                x={x}
+                y={0}
+                width={regionWidth}
+                height={plotHeight}
+                fill={region.color}
+                fillOpacity={REGION_OPACITY}
+              />
+              <Rect x={x} y={0} width={regionWidth} height={REGION_STRIP_HEIGHT} fill={region.color} />
+            </G>
+          );
+        })}
+
+        {/* Markers */}
+        {markers.map((marker, index) => {
+          if (marker.time < view.start || marker.time > view.start + view.span) return null;
+          const x = timeToX(marker.time);
+          return (
+            <Line
+              key={`m-${index}`}
+              x1={x}
+              y1={plotHeight - MARKER_HEIGHT}
+              x2={x}
+              y2={plotHeight}
+              stroke={marker.color}
+              strokeWidth={2}
+            />
+          );
+        })}
+
+        {/* Frequency axis */}
+        <SvgText x={2} y={AXIS_FONT_SIZE} fontSize={AXIS_FONT_SIZE} fill={theme.colors.textSecondary}>
+          Hz
+        </SvgText>
+        {frequencyTicks.map(hz => {
+          const y = frequencyToY(hz);
+          return (
+            <G key={`f-${hz}`}>
+              <Line
+                x1={FREQUENCY_AXIS_WIDTH - 4}
+                y1={y}
+                x2={FREQUENCY_AXIS_WIDTH}
+                y2={y}
+                stroke={theme.colors.textSecondary}
+              />
+              <SvgText
+                x={FREQUENCY_AXIS_WIDTH - 6}
+                y={Math.max(AXIS_FONT_SIZE * 2, Math.min(plotHeight, y + AXIS_FONT_SIZE / 2 - 1))}
+                fontSize={AXIS_FONT_SIZE}
+                textAnchor="end"
+                fill={theme.colors.textSecondary}
+              >
+                {formatFrequency(hz)}
+              </SvgText>
+            </G>
+          );
+        })}
+
+        {/* Time axis */}
+        {timeTicks.ticks.map(t => {
+          const x = timeToX(t);
+          return (
+            <G key={`t-${t.toFixed(3)}`}>
+              <Line
+                x1={x}
+                y1={plotHeight}
+                x2={x}
+                y2={plotHeight + 4}
+                stroke={theme.colors.textSecondary}
+              />
+              <SvgText
+                x={Math.min(width - 2, Math.max(FREQUENCY_AXIS_WIDTH + 2, x))}
+                y={plotHeight + TIME_AXIS_HEIGHT - 4}
+                fontSize={AXIS_FONT_SIZE}
+                textAnchor="middle"
+                fill={theme.colors.textSecondary}
+              >
+                {`${t.toFixed(timeTicks.step < 1 ? 1 : 0)}s`}
+              </SvgText>
+            </G>
+          );
+        })}
+
+        {/* Playhead */}
+        {showPlayhead && (
+          <Line
+            x1={timeToX(playbackPosition as number)}
+            y1={0}
+            x2={timeToX(playbackPosition as number)}
+            y2={plotHeight}
+            stroke={theme.colors.recording}
+            strokeWidth={2}
+          />
+        )}
+
+        {/* dB legend */}
+        <SvgText
+          x={FREQUENCY_AXIS_WIDTH - 6}
+          y={legendY + 9}
+          fontSize={AXIS_FONT_SIZE}
+          textAnchor="end"
+          fill={theme.colors.textSecondary}
+        >
+          dB
+        </SvgText>
+        <Rect
+          x={FREQUENCY_AXIS_WIDTH}
+          y={legendY}
+          width={legendWidth}
+          height={10}
+          fill="url(#spectrogramLegend)"
+        />
+        <SvgText
+          x={FREQUENCY_AXIS_WIDTH}
+          y={legendY + 22}
+          fontSize={AXIS_FONT_SIZE}
+          fill={theme.colors.textSecondary}
+        >
+          {floorDb.toFixed(0)}
+        </SvgText>
+        <SvgText
+          x={FREQUENCY_AXIS_WIDTH + legendWidth}
+          y={legendY + 22}
+          fontSize={AXIS_FONT_SIZE}
+          textAnchor="end"
+          fill={theme.colors.textSecondary}
+        >
+          {peakDb.toFixed(0)}
+        </SvgText>
+      </Svg>
+
+      {isZoomed && (
+        <TouchableOpacity
+          style={styles.resetButton}
+          onPress={() => setView({ start: 0, span: duration })}
+        >
+          <Text style={styles.resetText}>Reset zoom</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  resetButton: {
+    position: 'absolute',
+    top: theme.spacing.xs,
+    right: theme.spacing.xs,
+    paddingHorizontal: theme.spacing.s,
+    paddingVertical: 2,
+    borderRadius: theme.borderRadius.s,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  resetText: {
+    color: '#fff',
+    fontSize: theme.typography.fontSize.xs,
+  },
+});
@@ -1,43 +1,76 @@
-import React, { useEffect, useState } from 'react';
-import { View, StyleSheet } from 'react-native';
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+
+import {
+  MeterState,
+  INITIAL_METER_STATE,
+  updateMeter,
+  isClipping,
+  amplitudeToMeterPosition,
+} from '@/utils/metering';
 
 interface WaveformMeterProps {
-  amplitude: number;
+  metering?: number;    // Latest input level in dBFS from the recording status
   isRecording: boolean;
   color: string;
 }
 
-export function WaveformMeter({ amplitude, isRecording, color }: WaveformMeterProps) {
+const MAX_BARS = 40;
+const BAR_AREA_HEIGHT = 80;
+const MIN_BAR_HEIGHT = 4;
+const UPDATE_INTERVAL_MS = 100;
+const CLIP_COLOR = '#FF6B6B';
+
+export function WaveformMeter({ metering, isRecording, color }: WaveformMeterProps) {
   const [levels, setLevels] = useState<number[]>([]);
-  const maxBars = 40;
+  const [meter, setMeter] = useState<MeterState>(INITIAL_METER_STATE);
+  const meteringRef = useRef(metering);
+  const meterRef = useRef<MeterState>(INITIAL_METER_STATE);
+
+  meteringRef.current = metering;
 
   useEffect(() => {
     if (isRecording) {
+      // Sample the latest reading at a steady rate so the meter keeps moving
+      // (and decaying) even when the status updates repeat a value
       const interval = setInterval(() => {
-        // Generate realistic waveform data based on amplitude
-        const newLevel = amplitude * 100 + Math.random() * 20;
+        const reading = meteringRef.current ?? -Infinity;
+        const next = updateMeter(meterRef.current, reading, Date.now());
+        meterRef.current = next;
+        setMeter(next);
         setLevels(prev => {
-          const updated = [...prev, newLevel];
-          if (updated.length > maxBars) {
-            return updated.slice(updated.length - maxBars);
+          const updated = [...prev, amplitudeToMeterPosition(next.level)];
+          if (updated.length > MAX_BARS) {
+            return updated.slice(updated.length - MAX_BARS);
           }
           return updated;
         });
-      }, 100);
+      }, UPDATE_INTERVAL_MS);
 
       return () => clearInterval(interval);
     } else {
+      meterRef.current = INITIAL_METER_STATE;
+      setMeter(INITIAL_METER_STATE);
       setLevels([]);
     }
-  }, [isRecording, amplitude]);
+  }, [isRecording]);
+
+  const clipping = isRecording && isClipping(meter, Date.now());
+  const peakPosition = amplitudeToMeterPosition(meter.peak);
 
   return (
     <View style={styles.container}>
+      <View style={styles.clipRow}>
+        <View style={[styles.clipDot, { backgroundColor: clipping ? CLIP_COLOR : '#E5E5E5' }]} />
+        <Text style={[styles.clipText, { color: clipping ? CLIP_COLOR : '#A0A0A0' }]}>CLIP</Text>
+      </View>
+
       <View style={styles.waveform}>
-        {Array.from({ length: maxBars }).map((_, index) => {
-          const level = levels[index] || 0;
-          const height = Math.max(4, Math.min(80, level));
-          
+        {Array.from({ length: MAX_BARS }).map((_, index) => {
+          // Newest reading on the right
+          const level = levels[levels.length - MAX_BARS + index] ?? 0;
+          const height = Math.max(MIN_BAR_HEIGHT, level * BAR_AREA_HEIGHT);
+
           return (
             <View
               key={index}
@@ -52,6 +85,20 @@ export function WaveformMeter({ amplitude, isRecording, color }: WaveformMeterPr
             />
           );
         })}
+
+        {/* Peak hold */}
+        {isRecording && peakPosition > 0 && (
+          <View
+            pointerEvents="none"
+            style={[
+              styles.peakLine,
+              {
+                bottom: Math.max(0, peakPosition * BAR_AREA_HEIGHT - 1),
+                backgroundColor: clipping ? CLIP_COLOR : color,
+              },
+            ]}
+          />
+        )}
       </View>
     </View>
   );
@@ -64,16 +111,39 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     paddingHorizontal: 20,
   },
+  clipRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-end',
+    marginBottom: 6,
+  },
+  clipDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 4,
+  },
+  clipText: {
+    fontSize: 10,
+    fontWeight: 'bold',
+  },
   waveform: {
     flexDirection: 'row',
     alignItems: 'flex-end',
     justifyContent: 'center',
-    height: 80,
+    height: BAR_AREA_HEIGHT,
     gap: 2,
   },
   bar: {
     width: 3,
     borderRadius: 2,
-    minHeight: 4,
+    minHeight: MIN_BAR_HEIGHT,
+  },
+  peakLine: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: 2,
+    opacity: 0.8,
   },
-});
\ No newline at end of file
+});
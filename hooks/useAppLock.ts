@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import { AppState } from 'react-native';
+
+import { isPinSet, getAutoLockSeconds } from '@/utils/appLock';
+
+export type LockStatus = 'loading' | 'locked' | 'unlocked';
+
+// Inactivity never locks sooner than this, even with auto-lock set to immediately
+const MIN_INACTIVITY_SECONDS = 60;
+const INACTIVITY_CHECK_MS = 10 * 1000;
+
+let status: LockStatus = 'loading';
+const listeners = new Set<() => void>();
+// Inactivity locking is held off while anything has it suspended
+let suspensions = 0;
+let resumedAt = 0;
+
+function setStatus(next: LockStatus) {
+  if (next === status) return;
+  status = next;
+  listeners.forEach(listener => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function useLockStatus(): LockStatus {
+  return useSyncExternalStore(subscribe, () => status);
+}
+
+// Lock now if a PIN is set
+export async function lockApp(): Promise<void> {
+  setStatus((await isPinSet()) ? 'locked' : 'unlocked');
+}
+
+// Call once the PIN has been verified
+export function unlockApp() {
+  setStatus('unlocked');
+}
+
+/**
+ * Hold off the inactivity lock, e.g. while recording with the stethoscope held
+ * to the chest and the screen untouched. Returns a function that resumes it;
+ * the inactivity timeout then starts over.
+ */
+export function suspendAutoLock(): () => void {
+  suspensions++;
+  let resumed = false;
+  return () => {
+    if (resumed) return;
+    resumed = true;
+    suspensions--;
+    resumedAt = Date.now();
+  };
+}
+
+// Suspend the inactivity lock for as long as `active` is true
+export function useSuspendAutoLock(active: boolean) {
+  useEffect(() => (active ? suspendAutoLock() : undefined), [active]);
+}
+
+/**
+ * Drive the lock for the root layout: start locked when a PIN is set, and
+ * lock again after the auto-lock timeout in the background or without
+ * touches (unless suspended). Returns a handler to report user activity.
+ */
+export function useAutoLock(): { status: LockStatus; onActivity: () => void } {
+  const current = useLockStatus();
+  const lastActivity = useRef(Date.now());
+  const backgroundedAt = useRef<number | null>(null);
+
+  useEffect(() => {
+    lockApp().catch(error => {
+      console.error('Error reading app lock:', error);
+      setStatus('unlocked');
+    });
+  }, []);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', async nextState => {
+      if (nextState !== 'active') {
+        backgroundedAt.current ??= Date.now();
+        return;
+      }
+      const since = backgroundedAt.current;
+      backgroundedAt.current = null;
+      lastActivity.current = Date.now();
+      if (since !== null && Date.now() - since >= (await getAutoLockSeconds()) * 1000) {
+        await lockApp();
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
+  useEffect(() => {
+    if (current !== 'unlocked') return;
+    lastActivity.current = Date.now();
+
+    const interval = setInterval(async () => {
+      if (suspensions > 0) return;
+      const timeout = Math.max(await getAutoLockSeconds(), MIN_INACTIVITY_SECONDS);
+      const idleSince = Math.max(lastActivity.current, resumedAt);
+      if (suspensions === 0 && Date.now() - idleSince >= timeout * 1000) {
+        await lockApp();
+      }
+    }, INACTIVITY_CHECK_MS);
+    return () => clearInterval(interval);
+  }, [current]);
+
+  const onActivity = useCallback(() => {
+    lastActivity.current = Date.now();
+  }, []);
+
+  return { status: current, onActivity };
+}
@@ -0,0 +1,291 @@
+#!/usr/bin/env node
+
+/**
+ * A local stand-in for the StethoPulse API, for development and testing.
+ * It implements the endpoints app/services/httpClient.tsx calls. Accounts,
+ * tokens and synced recordings live in memory and are lost when the server
+ * stops. Password reset codes are printed to the console instead of being
+ * emailed, and analysis returns a canned result.
+ *
+ * Usage:
+ *   npm run api-server
+ *   EXPO_PUBLIC_API_BASE_URL=http://localhost:4000 npx expo start
+ *
+ * On the Android emulator use http://10.0.2.2:4000; on a device use this
+ * machine's LAN address. Set ACCESS_TOKEN_TTL (seconds, default 60) to see
+ * token refresh sooner or later.
+ */
+
+const http = require("http");
+const crypto = require("crypto");
+const { Buffer } = require("buffer");
+
+const PORT = Number(process.env.PORT) || 4000;
+const ACCESS_TOKEN_TTL = (Number(process.env.ACCESS_TOKEN_TTL) || 60) * 1000;
+const REFRESH_TOKEN_TTL = 7 * 24 * 60 * 60 * 1000;
+const RESET_CODE_TTL = 15 * 60 * 1000;
+const MAX_BODY_BYTES = 64 * 1024;
+const MAX_UPLOAD_BYTES = 100 * 1024 * 1024;
+
+const users = new Map(); // email -> { id, name, email, salt, passwordHash }
+const accessTokens = new Map(); // token -> { email, expiresAt }
+const refreshTokens = new Map(); // token -> { email, expiresAt }
+const resetCodes = new Map(); // email -> { code, expiresAt }
+const syncedRecordings = new Map(); // email -> Map(id -> recording)
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const normalizeEmail = (email) => String(email || "").trim().toLowerCase();
+
+const hashPassword = (password, salt) =>
+  crypto.scryptSync(password, salt, 32).toString("hex");
+
+const publicUser = ({ id, name, email }) => ({ id, name, email });
+
+function validatePassword(password) {
+  if (typeof password !== "string" || password.length < 6) {
+    throw new HttpError(400, "Password must be at least 6 characters");
+  }
+}
+
+function issueTokens(email) {
+  const accessToken = crypto.randomBytes(32).toString("hex");
+  const refreshToken = crypto.randomBytes(32).toString("hex");
+  accessTokens.set(accessToken, { email, expiresAt: Date.now() + ACCESS_TOKEN_TTL });
+  refreshTokens.set(refreshToken, { email, expiresAt: Date.now() + REFRESH_TOKEN_TTL });
+  return { accessToken, refreshToken };
+}
+
+// End every session of an account, e.g. after its password changes
+function revokeTokens(email) {
+  for (const tokens of [accessTokens, refreshTokens]) {
+    for (const [token, entry] of tokens) {
+      if (entry.email === email) tokens.delete(token);
+    }
+  }
+}
+
+function authenticate(req) {
+  const match = /^Bearer (\S+)$/.exec(req.headers.authorization || "");
+  const entry = match && accessTokens.get(match[1]);
+  if (!entry || entry.expiresAt < Date.now()) {
+    if (entry) accessTokens.delete(match[1]);
+    throw new HttpError(401, "Access token is missing or expired");
+  }
+  return users.get(entry.email);
+}
+
+const routes = {
+  "POST /auth/register": ({ name, email, password }) => {
+    email = normalizeEmail(email);
+    if (!String(name || "").trim()) throw new HttpError(400, "Name is required");
+    if (!email.includes("@")) throw new HttpError(400, "Please enter a valid email");
+    validatePassword(password);
+    if (users.has(email)) {
+      throw new HttpError(409, "An account with this email already exists");
+    }
+
+    const salt = crypto.randomBytes(16).toString("hex");
+    const user = {
+      id: crypto.randomUUID(),
+      name: name.trim(),
+      email,
+      salt,
+      passwordHash: hashPassword(password, salt),
+    };
+    users.set(email, user);
+    return [201, { user: publicUser(user), ...issueTokens(email) }];
+  },
+
+  "POST /auth/login": ({ email, password }) => {
+    const user = users.get(normalizeEmail(email));
+    const hash = user && hashPassword(String(password || ""), user.salt);
+    if (!user || !crypto.timingSafeEqual(Buffer.from(hash), Buffer.from(user.passwordHash))) {
+      throw new HttpError(401, "Invalid email or password");
+    }
+    return [200, { user: publicUser(user), ...issueTokens(user.email) }];
+  },
+
+  // Refresh tokens are single use; each refresh returns a new pair
+  "POST /auth/refresh": ({ refreshToken }) => {
+    const entry = refreshTokens.get(refreshToken);
+    refreshTokens.delete(refreshToken);
+    if (!entry || entry.expiresAt < Date.now() || !users.has(entry.email)) {
+      throw new HttpError(401, "Refresh token is invalid or expired");
+    }
+    return [200, issueTokens(entry.email)];
+  },
+
+  "POST /auth/logout": ({ refreshToken }) => {
+    refreshTokens.delete(refreshToken);
+    return [204];
+  },
+
+  "GET /auth/me": (body, req) => [200, { user: publicUser(authenticate(req)) }],
+
+  // Always succeeds, so the response does not reveal which emails have accounts
+  "POST /auth/password-reset": ({ email }) => {
+    email = normalizeEmail(email);
+    if (users.has(email)) {
+      const code = String(crypto.randomInt(0, 1000000)).padStart(6, "0");
+      resetCodes.set(email, { code, expiresAt: Date.now() + RESET_CODE_TTL });
+      console.log(`Password reset code for ${email}: ${code}`);
+    }
+    return [204];
+  },
+
+  "POST /auth/password-reset/confirm": ({ email, code, password }) => {
+    email = normalizeEmail(email);
+    const reset = resetCodes.get(email);
+    if (!reset || reset.expiresAt < Date.now() || reset.code !== String(code || "").trim()) {
+      throw new HttpError(400, "The reset code is invalid or has expired");
+    }
+    validatePassword(password);
+
+    const user = users.get(email);
+    user.salt = crypto.randomBytes(16).toString("hex");
+    user.passwordHash = hashPassword(password, user.salt);
+    resetCodes.delete(email);
+    revokeTokens(email);
+    return [204];
+  },
+
+  // The upload is read and discarded; the result depends only on its size
+  "POST /analysis": (size, req) => {
+    authenticate(req);
+    if (size === 0) throw new HttpError(400, "No audio was uploaded");
+    const conditions = ["Healthy", "Mild Irregularities", "Possible Obstruction"];
+    const condition = conditions[size % conditions.length];
+    return [200, {
+      condition,
+      confidence: 70 + (size % 28),
+      respiratoryRate: 12 + (size % 9),
+      irregularities: condition !== "Healthy",
+    }];
+  },
+
+  "POST /recordings/sync": ({ recordings }, req) => {
+    const user = authenticate(req);
+    if (!Array.isArray(recordings)) throw new HttpError(400, "recordings must be a list");
+    const stored = syncedRecordings.get(user.email) || new Map();
+    recordings.forEach((recording) => stored.set(recording.id, recording));
+    syncedRecordings.set(user.email, stored);
+    return [200, { synced: recordings.length }];
+  },
+
+  "PATCH /profile": ({ name, email }, req) => {
+    const user = authenticate(req);
+    // Validate everything first, so a rejected update changes nothing
+    if (name !== undefined && !String(name).trim()) throw new HttpError(400, "Name is required");
+    const next = email !== undefined ? normalizeEmail(email) : user.email;
+    if (next !== user.email) {
+      if (!next.includes("@")) throw new HttpError(400, "Please enter a valid email");
+      if (users.has(next)) throw new HttpError(409, "An account with this email already exists");
+    }
+
+    if (name !== undefined) user.name = String(name).trim();
+    if (next !== user.email) {
+      for (const tokens of [accessTokens, refreshTokens]) {
+        tokens.forEach((entry) => {
+          if (entry.email === user.email) entry.email = next;
+        });
+      }
+      syncedRecordings.set(next, syncedRecordings.get(user.email) || new Map());
+      syncedRecordings.delete(user.email);
+      resetCodes.delete(user.email);
+      users.delete(user.email);
+      user.email = next;
+      users.set(next, user);
+    }
+    return [200, { user: publicUser(user) }];
+  },
+
+  // Built from the analysed recordings synced so far, newest first
+  "GET /profile/history": (body, req) => {
+    const user = authenticate(req);
+    const history = [...(syncedRecordings.get(user.email) || new Map()).values()]
+      .filter((recording) => recording.analysisResult)
+      .sort((a, b) => String(b.createdAt).localeCompare(String(a.createdAt)))
+      .map((recording) => ({
+        date: String(recording.createdAt).slice(0, 10),
+        status: recording.analysisResult.condition,
+        score: recording.analysisResult.confidence,
+      }));
+    return [200, { history }];
+  },
+};
+
+// Routes that take a file upload get the body's size instead of parsed JSON
+const UPLOAD_ROUTES = new Set(["POST /analysis"]);
+
+function readBody(req, upload) {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on("data", (chunk) => {
+      size += chunk.length;
+      if (size > (upload ? MAX_UPLOAD_BYTES : MAX_BODY_BYTES)) {
+        reject(new HttpError(413, "Request body is too large"));
+        req.destroy();
+        return;
+      }
+      if (!upload) chunks.push(chunk);
+    });
+    req.on("end", () => {
+      if (upload) {
+        resolve(size);
+        return;
+      }
+      const text = Buffer.concat(chunks).toString("utf8");
+      try {
+        resolve(text ? JSON.parse(text) : {});
+      } catch {
+        reject(new HttpError(400, "Request body is not valid JSON"));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+const server = http.createServer(async (req, res) => {
+  // Allow the web build to call the server from another origin
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, DELETE",
+      "Access-Control-Allow-Headers": "Authorization, Content-Type, Accept",
+    });
+    res.end();
+    return;
+  }
+
+  const key = `${req.method} ${new URL(req.url, "http://localhost").pathname}`;
+  const route = routes[key];
+  try {
+    if (!route) throw new HttpError(404, "Not found");
+    const [status, body] = route(await readBody(req, UPLOAD_ROUTES.has(key)), req);
+    sendJson(res, status, body);
+  } catch (error) {
+    if (!(error instanceof HttpError)) console.error(error);
+    sendJson(res, error.status || 500, { error: error.status ? error.message : "Internal server error" });
+  }
+  console.log(`${req.method} ${req.url} -> ${res.statusCode}`);
+});
+
+server.listen(PORT, () => {
+  console.log(`API stand-in server listening on http://localhost:${PORT}`);
+  console.log(`Access tokens expire after ${ACCESS_TOKEN_TTL / 1000} seconds`);
+});
@@ -19,12 +19,29 @@ try {
 }
 
 // Import FFT utils for spectrogram generation
-import fftUtils from '../utils/fft';
+import { stft, magnitudeToDb } from '../../utils/fft';
 
 const WINDOW_WIDTH = Dimensions.get('window').width;
 const DEFAULT_HEIGHT = 200;
 const DEFAULT_CELL_SIZE = 6;
 
+// Compute a spectrogram as an array of frames with intensities normalized to [0, 1]
+const computeSpectrogram = (audioBuffer, fftSize = 1024, hopSize = 512) => {
+  const result = stft(audioBuffer, { fftSize, hopSize, window: 'hann' });
+  const frames = [];
+
+  for (let frame = 0; frame < result.frames; frame++) {
+    const row = new Array(result.bins);
+    for (let bin = 0; bin < result.bins; bin++) {
+      const db = magnitudeToDb(result.data[frame * result.bins + bin]);
+      row[bin] = Math.max(0, Math.min(1, (db + 100) / 100));
+    }
+    frames.push(row);
+  }
+
+  return frames;
+};
+
 const SpectrogramRenderer = ({
   audioData = null, // Audio buffer data
   spectrogram = null, // Pre-computed spectrogram data (if available)
@@ -49,7 +66,7 @@ const SpectrogramRenderer = ({
     }
 
     try {
-      const computedSpectrogram = fftUtils.generateSpectrogram(
+      const computedSpectrogram = computeSpectrogram(
         audioData,
         1024, // FFT size
         512   // Hop size
@@ -1,3 +1,12 @@
+import { BreathPhase } from '@/utils/breathPhases';
+import { CoughEvent } from '@/utils/coughDetection';
+import { WheezeAnalysis } from '@/utils/wheezeDetection';
+import { CrackleAnalysis } from '@/utils/crackleDetection';
+import { AppliedFilter } from '@/utils/filters';
+import { RecordingQuality } from '@/utils/recordingQuality';
+import { AuscultationSite } from '@/utils/auscultation';
+
+// The app's single recording model, persisted by utils/storage.ts
 export interface Recording {
   id: string;
   uri: string;
@@ -7,6 +16,23 @@ export interface Recording {
   fileSize: number;
   analyzed?: boolean;
   analysisResult?: AnalysisResult;
+  coughEvents?: CoughEvent[];
+  quality?: RecordingQuality;
+  site?: AuscultationSite;
+  sessionId?: string;
+  origin?: 'recorded' | 'imported';   // Absent for clips captured in the app
+  originalName?: string;              // File name an imported clip was picked as
+  sampleRate?: number;                // Hz, when probed from the file
+  channels?: number;
+}
+
+// A group of related recordings, such as the sites of a guided session or a cough and breath pair
+export interface Session {
+  id: string;
+  createdAt: string;
+  patient?: string;
+  notes?: string;
+  recordingIds: string[];
 }
 
 export interface AnalysisResult {
@@ -16,4 +42,14 @@ export interface AnalysisResult {
   irregularities?: boolean;
   interpretation?: string;
   recommendations?: string;
+  phases?: BreathPhase[];
+  meanInspirationDuration?: number;
+  meanExpirationDuration?: number;
+  ieRatio?: number;
+  prolongedExpiration?: boolean;
+  coughEvents?: CoughEvent[];
+  wheezes?: WheezeAnalysis;
+  crackles?: CrackleAnalysis;
+  filters?: AppliedFilter[];
+  heartRate?: number;
 }
\ No newline at end of file
@@ -0,0 +1,151 @@
+/**
+ * App Lock
+ * PIN storage and verification. The PIN is kept only as a salted PBKDF2 hash
+ * in the platform keystore; failed attempts are counted across launches and
+ * lock out further tries for increasing periods.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha2';
+import { base64ToBytes, bytesToBase64 } from './base64';
+
+const PIN_KEY = 'stethopulse_pin';
+const ATTEMPTS_KEY = 'stethopulse_pin_attempts';
+const AUTO_LOCK_KEY = 'stethopulse_auto_lock_seconds';
+
+const SALT_BYTES = 16;
+const HASH_BYTES = 32;
+const PBKDF2_ITERATIONS = 50000;
+
+// Wrong PINs allowed before lockouts start, and the lockout growth
+const FREE_ATTEMPTS = 5;
+const FIRST_LOCKOUT_MS = 30 * 1000;
+const MAX_LOCKOUT_MS = 15 * 60 * 1000;
+
+export const MIN_PIN_LENGTH = 4;
+export const MAX_PIN_LENGTH = 8;
+
+// Auto-lock choices in seconds, applied to both inactivity and time in the background
+export const AUTO_LOCK_OPTIONS = [0, 60, 300, 900];
+const DEFAULT_AUTO_LOCK_SECONDS = 60;
+
+interface StoredPin {
+  salt: string;               // Base64
+  hash: string;               // Base64
+  iterations: number;
+}
+
+interface AttemptState {
+  failures: number;
+  lockedUntil: number;        // Epoch ms; 0 when not locked out
+}
+
+export type PinCheck =
+  | { ok: true }
+  | { ok: false; lockedUntil: number | null; attemptsLeft: number };
+
+export function isValidPin(pin: string): boolean {
+  return new RegExp(`^\\d{${MIN_PIN_LENGTH},${MAX_PIN_LENGTH}}$`).test(pin);
+}
+
+async function hashPin(pin: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  return pbkdf2Async(sha256, pin, salt, { c: iterations, dkLen: HASH_BYTES });
+}
+
+// Compare without returning early, so timing does not reveal the matching prefix
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a[i] ^ b[i];
+  }
+  return difference === 0;
+}
+
+async function getAttempts(): Promise<AttemptState> {
+  const stored = await SecureStore.getItemAsync(ATTEMPTS_KEY);
+  return stored ? JSON.parse(stored) : { failures: 0, lockedUntil: 0 };
+}
+
+async function saveAttempts(attempts: AttemptState): Promise<void> {
+  await SecureStore.setItemAsync(ATTEMPTS_KEY, JSON.stringify(attempts));
+}
+
+export async function isPinSet(): Promise<boolean> {
+  return (await SecureStore.getItemAsync(PIN_KEY)) !== null;
+}
+
+export async function setPin(pin: string): Promise<void> {
+  if (!isValidPin(pin)) {
+    throw new Error(`PIN must be ${MIN_PIN_LENGTH} to ${MAX_PIN_LENGTH} digits`);
+  }
+  const salt = Crypto.getRandomBytes(SALT_BYTES);
+  const stored: StoredPin = {
+    salt: bytesToBase64(salt),
+    hash: bytesToBase64(await hashPin(pin, salt, PBKDF2_ITERATIONS)),
+    iterations: PBKDF2_ITERATIONS,
+  };
+  await SecureStore.setItemAsync(PIN_KEY, JSON.stringify(stored));
+  await saveAttempts({ failures: 0, lockedUntil: 0 });
+}
+
+export async function clearPin(): Promise<void> {
+  await SecureStore.deleteItemAsync(PIN_KEY);
+  await SecureStore.deleteItemAsync(ATTEMPTS_KEY);
+}
+
+// When the current lockout ends, or null if a PIN may be tried now
+export async function getLockout(): Promise<number | null> {
+  const { lockedUntil } = await getAttempts();
+  return lockedUntil > Date.now() ? lockedUntil : null;
+}
+
+/**
+ * Check a PIN. While locked out every attempt is refused without checking;
+ * each wrong PIN past the free attempts doubles the next lockout.
+ */
+export async function verifyPin(pin: string): Promise<PinCheck> {
+  const storedJson = await SecureStore.getItemAsync(PIN_KEY);
+  if (!storedJson) return { ok: true };
+
+  const attempts = await getAttempts();
+  if (attempts.lockedUntil > Date.now()) {
+    return { ok: false, lockedUntil: attempts.lockedUntil, attemptsLeft: 0 };
+  }
+
+  const stored: StoredPin = JSON.parse(storedJson);
+  const hash = await hashPin(pin, base64ToBytes(stored.salt), stored.iterations);
+  if (equalBytes(hash, base64ToBytes(stored.hash))) {
+    await saveAttempts({ failures: 0, lockedUntil: 0 });
+    return { ok: true };
+  }
+
+  const failures = attempts.failures + 1;
+  const overLimit = failures - FREE_ATTEMPTS;
+  const lockedUntil = overLimit >= 0
+    ? Date.now() + Math.min(FIRST_LOCKOUT_MS * 2 ** overLimit, MAX_LOCKOUT_MS)
+    : 0;
+  await saveAttempts({ failures, lockedUntil });
+  return {
+    ok: false,
+    lockedUntil: lockedUntil || null,
+    attemptsLeft: Math.max(FREE_ATTEMPTS - failures, 0),
+  };
+}
+
+export async function getAutoLockSeconds(): Promise<number> {
+  const stored = await AsyncStorage.getItem(AUTO_LOCK_KEY);
+  return stored !== null ? Number(stored) : DEFAULT_AUTO_LOCK_SECONDS;
+}
+
+export async function setAutoLockSeconds(seconds: number): Promise<void> {
+  await AsyncStorage.setItem(AUTO_LOCK_KEY, String(seconds));
+}
+
+export function formatAutoLock(seconds: number): string {
+  if (seconds === 0) return 'Immediately';
+  return seconds < 60 ? `After ${seconds} seconds` : `After ${seconds / 60} ${seconds === 60 ? 'minute' : 'minutes'}`;
+}
@@ -2,13 +2,20 @@ import { Audio } from 'expo-av';
 import * as FileSystem from 'expo-file-system';
 import { Recording } from '@/types/recording';
 import { ensureDirectoryExists, saveRecordingMetadata } from './storage';
+import { readAudioFile } from './audioDecoder';
+import { encryptFile, decryptedCopy, deleteDecryptedCopy } from './encryption';
+import { CoughEvent, detectCoughs } from './coughDetection';
+import { RecordingQuality, assessDuration, assessRecordingQuality } from './recordingQuality';
 
 const RECORDINGS_DIRECTORY = `${FileSystem.documentDirectory}recordings/`;
+// How often recording status (duration, metering) is reported
+const STATUS_UPDATE_INTERVAL_MS = 100;
 
 // Audio recording settings optimized for respiratory sounds
 const RECORDING_OPTIONS = {
   isMeteringEnabled: true,
   android: {
+    // Android can't record PCM; AAC is decoded natively for on-device analysis
     extension: '.m4a',
     outputFormat: Audio.AndroidOutputFormat.MPEG_4,
     audioEncoder: Audio.AndroidAudioEncoder.AAC,
@@ -17,7 +24,9 @@ const RECORDING_OPTIONS = {
     bitRate: 128000,
   },
   ios: {
-    extension: '.m4a',
+    // Linear PCM so recordings can be decoded for on-device analysis
+    extension: '.wav',
+    outputFormat: Audio.IOSOutputFormat.LINEARPCM,
     audioQuality: Audio.IOSAudioQuality.HIGH,
     sampleRate: 44100,
     numberOfChannels: 1,
@@ -71,6 +80,7 @@ export async function startRecording(
     
     if (onStatusUpdate) {
       recording.setOnRecordingStatusUpdate(onStatusUpdate);
+      recording.setProgressUpdateInterval(STATUS_UPDATE_INTERVAL_MS);
     }
     
     await recording.prepareToRecordAsync(RECORDING_OPTIONS);
@@ -120,8 +130,9 @@ export async function saveRecording(recordingData: Omit<Recording, 'fileSize'>):
   try {
     await ensureDirectoryExists();
     
-    // Generate filename
-    const fileName = `${recordingData.type}-${Date.now()}.m4a`;
+    // Generate filename, keeping the recorder's container format
+    const extension = recordingData.uri.split('.').pop() || 'm4a';
+    const fileName = `${recordingData.type}-${Date.now()}.${extension}`;
     const destUri = `${RECORDINGS_DIRECTORY}${fileName}`;
     
     // Move file to recordings directory
@@ -133,12 +144,18 @@ export async function saveRecording(recordingData: Omit<Recording, 'fileSize'>):
     // Get file size
     const fileInfo = await FileSystem.getInfoAsync(destUri, { size: true });
     const fileSize = 'size' in fileInfo ? fileInfo.size : 0;
+    await encryptFile(destUri);
+    
+    const coughEvents = recordingData.type === 'cough'
+      ? await detectCoughEvents(destUri)
+      : undefined;
     
     // Save metadata
     const completeRecording: Recording = {
       ...recordingData,
       uri: destUri,
       fileSize,
+      coughEvents,
     };
     
     await saveRecordingMetadata(completeRecording);
@@ -150,6 +167,73 @@ export async function saveRecording(recordingData: Omit<Recording, 'fileSize'>):
   }
 }
 
+// Assess a freshly captured recording; falls back to a duration check if it can't be decoded
+export async function checkRecordingQuality(
+  uri: string,
+  duration: number,
+  type: 'cough' | 'breath'
+): Promise<RecordingQuality> {
+  try {
+    const audio = await readAudioFile(uri);
+    return assessRecordingQuality(audio, type);
+  } catch (error) {
+    console.warn('Quality check limited to duration:', error);
+    return assessDuration(duration, type);
+  }
+}
+
+// Delete a captured recording that won't be saved
+export async function discardRecording(uri: string): Promise<void> {
+  try {
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+  } catch (error) {
+    console.error('Error discarding recording:', error);
+  }
+}
+
+// Detect individual coughs in a recording; undefined if the audio can't be decoded
+export async function detectCoughEvents(uri: string): Promise<CoughEvent[] | undefined> {
+  try {
+    const audio = await readAudioFile(uri);
+    return detectCoughs(audio);
+  } catch (error) {
+    console.warn('Cough detection skipped:', error);
+    return undefined;
+  }
+}
+
+// Read an audio file's duration in seconds by loading it without playing
+export async function readAudioDuration(uri: string): Promise<number> {
+  const playableUri = await decryptedCopy(uri);
+  try {
+    const { sound, status } = await Audio.Sound.createAsync({ uri: playableUri }, { shouldPlay: false });
+    try {
+      if (!status.isLoaded || status.durationMillis === undefined) {
+        throw new Error('Audio file could not be loaded');
+      }
+      return status.durationMillis / 1000;
+    } finally {
+      await sound.unloadAsync();
+    }
+  } finally {
+    await deleteDecryptedCopy(playableUri);
+  }
+}
+
+let playbackCopy: string | null = null;
+
+/**
+ * A URI the player can open for a stored recording. Encrypted files are
+ * decrypted to the cache; only the copy for the latest playback is kept.
+ */
+export async function preparePlayback(uri: string): Promise<string> {
+  if (playbackCopy) {
+    await deleteDecryptedCopy(playbackCopy);
+  }
+  playbackCopy = await decryptedCopy(uri);
+  return playbackCopy;
+}
+
 // Play a recording
 export async function playRecording(uri: string): Promise<Audio.Sound | null> {
   try {
@@ -170,7 +254,7 @@ export async function playRecording(uri: string): Promise<Audio.Sound | null> {
 
     // Create and play sound
     const { sound } = await Audio.Sound.createAsync(
-      { uri },
+      { uri: await preparePlayback(uri) },
       { shouldPlay: true }
     );
     
@@ -0,0 +1,67 @@
+/**
+ * Audio Decoder
+ * Reads stored recordings into normalized mono samples. WAV is parsed in
+ * JavaScript; M4A/AAC (Android recordings, imports) and MP3 are decoded natively.
+ */
+
+import * as FileSystem from 'expo-file-system';
+import { OfflineAudioContext } from 'react-native-audio-api';
+import { base64ToBytes } from './base64';
+import { decryptBytes } from './encryption';
+import { DecodedAudio, decodeWav } from './wav';
+
+// Compressed audio is resampled to the rate recordings are captured at
+const DECODE_SAMPLE_RATE = 44100;
+
+function isWav(bytes: Uint8Array): boolean {
+  return bytes.byteLength >= 12 &&
+    String.fromCharCode(...bytes.subarray(0, 4)) === 'RIFF' &&
+    String.fromCharCode(...bytes.subarray(8, 12)) === 'WAVE';
+}
+
+// Decode M4A/AAC or MP3 with the platform decoder, downmixing all channels to mono
+async function decodeCompressed(bytes: Uint8Array): Promise<DecodedAudio> {
+  const context = new OfflineAudioContext(1, DECODE_SAMPLE_RATE, DECODE_SAMPLE_RATE);
+  const data = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+
+  let buffer;
+  try {
+    buffer = await context.decodeAudioData(data);
+  } catch (error) {
+    throw new Error(`Could not decode audio: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const channels = buffer.numberOfChannels;
+  const samples = new Float32Array(buffer.length);
+  for (let channel = 0; channel < channels; channel++) {
+    const channelData = buffer.getChannelData(channel);
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] += channelData[i] / channels;
+    }
+  }
+
+  return {
+    samples,
+    sampleRate: buffer.sampleRate,
+    channels,
+    bitDepth: 16,           // The platform decoders output 16-bit PCM
+    format: 'pcm',
+    duration: samples.length / buffer.sampleRate,
+  };
+}
+
+// Read and decode a recording from the local file system, whatever its format
+export async function readAudioFile(uri: string): Promise<DecodedAudio> {
+  const fileInfo = await FileSystem.getInfoAsync(uri);
+  if (!fileInfo.exists) {
+    throw new Error('Audio file does not exist');
+  }
+
+  const base64 = await FileSystem.readAsStringAsync(uri, {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+
+  // Stored recordings are encrypted at rest
+  const bytes = await decryptBytes(base64ToBytes(base64));
+  return isWav(bytes) ? decodeWav(bytes) : decodeCompressed(bytes);
+}
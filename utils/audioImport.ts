@@ -0,0 +1,259 @@
+/**
+ * Audio Import
+ * Brings WAV, M4A and MP3 files from other apps into the recording library:
+ * validates and probes each file, copies it into the recordings directory and
+ * saves it as an imported recording
+ */
+
+import * as FileSystem from 'expo-file-system';
+import * as DocumentPicker from 'expo-document-picker';
+import { Recording } from '@/types/recording';
+import { ensureDirectoryExists, saveRecordingMetadata } from './storage';
+import { readAudioDuration, detectCoughEvents } from './audio';
+import { base64ToBytes } from './base64';
+import { parseWavHeader } from './wav';
+import { encryptFile } from './encryption';
+
+const RECORDINGS_DIRECTORY = `${FileSystem.documentDirectory}recordings/`;
+const MAX_IMPORT_BYTES = 100 * 1024 * 1024;
+const HEADER_BYTES = 64 * 1024;
+
+export type ImportFormat = 'wav' | 'm4a' | 'mp3';
+
+const EXTENSIONS: Record<string, ImportFormat> = {
+  '.wav': 'wav',
+  '.m4a': 'm4a',
+  '.mp4': 'm4a',
+  '.mp3': 'mp3',
+};
+
+// A file picked for import
+export interface ImportSource {
+  uri: string;
+  name: string;
+  size?: number;                // Bytes, when the picker reports it
+}
+
+export interface AudioProbe {
+  format: ImportFormat;
+  duration: number;             // Seconds
+  sampleRate?: number;          // Hz
+  channels?: number;
+}
+
+export interface ImportOptions {
+  type: Recording['type'];
+}
+
+export interface ImportResult {
+  imported: Recording[];
+  failed: { name: string; error: string }[];
+}
+
+function formatOf(name: string): ImportFormat {
+  const extension = name.slice(name.lastIndexOf('.')).toLowerCase();
+  const format = EXTENSIONS[extension];
+  if (!format) {
+    throw new Error('Unsupported file type; choose a WAV, M4A or MP3 file');
+  }
+  return format;
+}
+
+async function readBytes(uri: string, length?: number): Promise<Uint8Array> {
+  const base64 = await FileSystem.readAsStringAsync(uri, {
+    encoding: FileSystem.EncodingType.Base64,
+    ...(length !== undefined ? { position: 0, length } : {}),
+  });
+  return base64ToBytes(base64);
+}
+
+const fourCC = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+
+// Sample rate and channel layout from the first MPEG audio frame header
+function probeMp3(bytes: Uint8Array): Pick<AudioProbe, 'sampleRate' | 'channels'> {
+  let offset = 0;
+  if (fourCC(bytes, 0).startsWith('ID3')) {
+    // ID3v2 tag size is a 28-bit syncsafe integer after the 10-byte header
+    offset = 10 + ((bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9]);
+  }
+
+  for (; offset + 4 <= bytes.length; offset++) {
+    if (bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe0) !== 0xe0) continue;
+
+    const version = (bytes[offset + 1] >> 3) & 3;         // 3: MPEG-1, 2: MPEG-2, 0: MPEG-2.5
+    const rateIndex = (bytes[offset + 2] >> 2) & 3;
+    if (version === 1 || rateIndex === 3) continue;
+
+    const baseRate = [44100, 48000, 32000][rateIndex];
+    return {
+      sampleRate: version === 3 ? baseRate : version === 2 ? baseRate / 2 : baseRate / 4,
+      channels: ((bytes[offset + 3] >> 6) & 3) === 3 ? 1 : 2,
+    };
+  }
+  throw new Error('Not a valid MP3 file');
+}
+
+// Sample rate and channels from the first audio sample entry in the moov box
+function probeMp4(bytes: Uint8Array): Pick<AudioProbe, 'sampleRate' | 'channels'> {
+  if (fourCC(bytes, 4) !== 'ftyp') {
+    throw new Error('Not a valid M4A file');
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const containers = new Set(['moov', 'trak', 'mdia', 'minf', 'stbl']);
+
+  const walk = (start: number, end: number): Pick<AudioProbe, 'sampleRate' | 'channels'> | null => {
+    let offset = start;
+    while (offset + 8 <= end) {
+      let size = view.getUint32(offset);
+      const type = fourCC(bytes, offset + 4);
+      let header = 8;
+      if (size === 1) {
+        size = Number(view.getBigUint64(offset + 8));
+        header = 16;
+      } else if (size === 0) {
+        size = end - offset;
+      }
+      if (size < header) break;
+
+      if (containers.has(type)) {
+        const found = walk(offset + header, Math.min(offset + size, end));
+        if (found) return found;
+      } else if (type === 'stsd') {
+        // Full box header and entry count precede the first sample entry
+        const entry = offset + header + 8;
+        if (entry + 36 <= end && ['mp4a', 'alac'].includes(fourCC(bytes, entry + 4))) {
+          return {
+            channels: view.getUint16(entry + 24),
+            sampleRate: view.getUint32(entry + 32) >>> 16,
+          };
+        }
+      }
+      offset += size;
+    }
+    return null;
+  };
+
+  const found = walk(0, bytes.length);
+  if (!found) {
+    throw new Error('M4A file has no audio track');
+  }
+  return found;
+}
+
+// Check that a file is a readable audio file and read its format details
+export async function probeAudioFile(uri: string, name: string, size: number): Promise<AudioProbe> {
+  const format = formatOf(name);
+
+  if (format === 'wav') {
+    const header = parseWavHeader(await readBytes(uri, Math.min(size, HEADER_BYTES)), size);
+    const frameSize = header.blockAlign || (header.bitDepth / 8) * header.channels;
+    return {
+      format,
+      duration: header.dataLength / frameSize / header.sampleRate,
+      sampleRate: header.sampleRate,
+      channels: header.channels,
+    };
+  }
+
+  // The MP4 moov box may sit at the end of the file, so M4A is read whole
+  const details = format === 'mp3'
+    ? probeMp3(await readBytes(uri, Math.min(size, HEADER_BYTES)))
+    : probeMp4(await readBytes(uri));
+  return { format, duration: await readAudioDuration(uri), ...details };
+}
+
+// Let the user pick one or more audio files; empty when cancelled
+export async function pickAudioFiles(): Promise<ImportSource[]> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['audio/*'],
+    multiple: true,
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled) return [];
+  return result.assets.map(asset => ({ uri: asset.uri, name: asset.name, size: asset.size }));
+}
+
+async function importFile(source: ImportSource, options: ImportOptions, index: number): Promise<Recording> {
+  const fileInfo = await FileSystem.getInfoAsync(source.uri, { size: true });
+  if (!fileInfo.exists) {
+    throw new Error('File could not be read');
+  }
+  const size = source.size ?? fileInfo.size;
+  if (size === 0) {
+    throw new Error('File is empty');
+  }
+  if (size > MAX_IMPORT_BYTES) {
+    throw new Error(`File is larger than ${MAX_IMPORT_BYTES / (1024 * 1024)} MB`);
+  }
+
+  const probe = await probeAudioFile(source.uri, source.name, size);
+  if (!(probe.duration > 0)) {
+    throw new Error('File contains no audio');
+  }
+
+  await ensureDirectoryExists();
+  const createdAt = new Date();
+  const extension = source.name.slice(source.name.lastIndexOf('.')).toLowerCase();
+  const uri = `${RECORDINGS_DIRECTORY}imported-${createdAt.getTime()}-${index}${extension}`;
+  await FileSystem.copyAsync({ from: source.uri, to: uri });
+
+  try {
+    await encryptFile(uri);
+    const recording: Recording = {
+      id: `imported-${createdAt.getTime()}-${index}`,
+      uri,
+      duration: probe.duration,
+      type: options.type,
+      createdAt: createdAt.toISOString(),
+      fileSize: size,
+      coughEvents: options.type === 'cough' ? await detectCoughEvents(uri) : undefined,
+      origin: 'imported',
+      originalName: source.name,
+      sampleRate: probe.sampleRate,
+      channels: probe.channels,
+    };
+    await saveRecordingMetadata(recording);
+    return recording;
+  } catch (error) {
+    // Don't leave an orphaned copy behind
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+    throw error;
+  }
+}
+
+// Delete the plain copy the picker left in the cache; other sources are left alone
+async function deletePickedCopy(uri: string): Promise<void> {
+  if (!FileSystem.cacheDirectory || !uri.startsWith(FileSystem.cacheDirectory)) return;
+  try {
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+  } catch (error) {
+    console.error('Error deleting picked file:', error);
+  }
+}
+
+/**
+ * Import files one by one. A file that fails is reported and skipped; the
+ * rest of the batch still goes through. Picked files are deleted from the
+ * cache either way, as they hold unencrypted audio.
+ */
+export async function importAudioFiles(
+  sources: ImportSource[],
+  options: ImportOptions
+): Promise<ImportResult> {
+  const result: ImportResult = { imported: [], failed: [] };
+  for (const [index, source] of sources.entries()) {
+    try {
+      result.imported.push(await importFile(source, options, index));
+    } catch (error) {
+      console.error('Error importing audio file:', error);
+      result.failed.push({
+        name: source.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      await deletePickedCopy(source.uri);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,81 @@
+/**
+ * Auscultation Sites
+ * Standard chest and back listening positions and the configurable
+ * sequence a guided recording session walks through
+ */
+
+export type BodySurface = 'anterior' | 'posterior';
+export type SiteLevel = 'upper' | 'middle' | 'lower';
+export type BodySide = 'left' | 'right';
+
+export type AuscultationSite = `${BodySurface}-${SiteLevel}-${BodySide}`;
+
+export interface SiteInfo {
+  id: AuscultationSite;
+  surface: BodySurface;
+  level: SiteLevel;
+  side: BodySide;
+  label: string;
+  // Position on the body map, as a fraction of the torso outline (viewer's perspective)
+  x: number;
+  y: number;
+}
+
+export interface ProtocolConfig {
+  sites: AuscultationSite[];      // Visited in this order
+  secondsPerSite: number;
+}
+
+export const SITE_DURATION_OPTIONS = [10, 15, 20, 30];
+// Pause before each site so the stethoscope can be moved
+export const POSITIONING_SECONDS = 3;
+
+const SURFACES: BodySurface[] = ['anterior', 'posterior'];
+const LEVELS: SiteLevel[] = ['upper', 'middle', 'lower'];
+const SIDES: BodySide[] = ['left', 'right'];
+const LEVEL_Y: Record<SiteLevel, number> = { upper: 0.3, middle: 0.5, lower: 0.7 };
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+function describeSite(surface: BodySurface, level: SiteLevel, side: BodySide): SiteInfo {
+  // The patient's left is on the viewer's right when facing the chest
+  const onViewerRight = surface === 'anterior' ? side === 'left' : side === 'right';
+  return {
+    id: `${surface}-${level}-${side}`,
+    surface,
+    level,
+    side,
+    label: `${capitalize(surface)} ${level} ${side}`,
+    x: onViewerRight ? 0.68 : 0.32,
+    y: LEVEL_Y[level],
+  };
+}
+
+// All sites in the standard order: front then back, top to bottom, alternating sides
+export const AUSCULTATION_SITES: SiteInfo[] = SURFACES.flatMap(surface =>
+  LEVELS.flatMap(level => SIDES.map(side => describeSite(surface, level, side)))
+);
+
+export const DEFAULT_PROTOCOL: ProtocolConfig = {
+  sites: AUSCULTATION_SITES.map(site => site.id),
+  secondsPerSite: 15,
+};
+
+export function getSiteInfo(id: AuscultationSite): SiteInfo | undefined {
+  return AUSCULTATION_SITES.find(site => site.id === id);
+}
+
+export function getSiteLabel(id: AuscultationSite): string {
+  return getSiteInfo(id)?.label ?? id;
+}
+
+// Add or remove a site, keeping the standard order
+export function toggleSite(sites: AuscultationSite[], id: AuscultationSite): AuscultationSite[] {
+  const selected = new Set(sites);
+  if (selected.has(id)) {
+    selected.delete(id);
+  } else {
+    selected.add(id);
+  }
+  return AUSCULTATION_SITES.map(site => site.id).filter(site => selected.has(site));
+}
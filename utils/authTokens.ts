@@ -0,0 +1,35 @@
+/**
+ * Auth Tokens
+ * Access and refresh tokens for the signed-in account, kept in the platform
+ * keystore and cached in memory for the requests that need them
+ */
+
+import * as SecureStore from 'expo-secure-store';
+
+const TOKENS_KEY = 'stethopulse_auth_tokens';
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+// Undefined until first read; null when signed out
+let cached: AuthTokens | null | undefined;
+
+export async function getTokens(): Promise<AuthTokens | null> {
+  if (cached === undefined) {
+    const stored = await SecureStore.getItemAsync(TOKENS_KEY);
+    cached = stored ? JSON.parse(stored) : null;
+  }
+  return cached ?? null;
+}
+
+export async function saveTokens(tokens: AuthTokens): Promise<void> {
+  await SecureStore.setItemAsync(TOKENS_KEY, JSON.stringify(tokens));
+  cached = tokens;
+}
+
+export async function clearTokens(): Promise<void> {
+  cached = null;
+  await SecureStore.deleteItemAsync(TOKENS_KEY);
+}
@@ -0,0 +1,56 @@
+/**
+ * Base64
+ * Binary <-> base64 conversion for moving typed arrays through expo-file-system
+ */
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_LOOKUP = new Uint8Array(256);
+for (let i = 0; i < BASE64_ALPHABET.length; i++) {
+  BASE64_LOOKUP[BASE64_ALPHABET.charCodeAt(i)] = i;
+}
+
+// Decode a base64 string (as returned by expo-file-system) into raw bytes
+export function base64ToBytes(base64: string): Uint8Array {
+  const clean = base64.replace(/[^A-Za-z0-9+/]/g, '');
+  const byteLength = Math.floor((clean.length * 3) / 4);
+  const bytes = new Uint8Array(byteLength);
+
+  let p = 0;
+  for (let i = 0; i < clean.length; i += 4) {
+    const a = BASE64_LOOKUP[clean.charCodeAt(i)];
+    const b = BASE64_LOOKUP[clean.charCodeAt(i + 1)];
+    const c = BASE64_LOOKUP[clean.charCodeAt(i + 2)];
+    const d = BASE64_LOOKUP[clean.charCodeAt(i + 3)];
+
+    if (p < byteLength) bytes[p++] = (a << 2) | (b >> 4);
+    if (p < byteLength) bytes[p++] = ((b & 15) << 4) | (c >> 2);
+    if (p < byteLength) bytes[p++] = ((c & 3) << 6) | d;
+  }
+
+  return bytes;
+}
+
+// Encode raw bytes as a padded base64 string
+export function bytesToBase64(bytes: Uint8Array): string {
+  const parts: string[] = [];
+  // Build the output in chunks to keep intermediate strings small
+  const chunkSize = 3 * 4096;
+
+  for (let start = 0; start < bytes.length; start += chunkSize) {
+    const end = Math.min(bytes.length, start + chunkSize);
+    let chunk = '';
+    for (let i = start; i < end; i += 3) {
+      const a = bytes[i];
+      const b = i + 1 < end ? bytes[i + 1] : 0;
+      const c = i + 2 < end ? bytes[i + 2] : 0;
+
+      chunk += BASE64_ALPHABET[a >> 2];
+      chunk += BASE64_ALPHABET[((a & 3) << 4) | (b >> 4)];
+      chunk += i + 1 < end ? BASE64_ALPHABET[((b & 15) << 2) | (c >> 6)] : '=';
+      chunk += i + 2 < end ? BASE64_ALPHABET[c & 63] : '=';
+    }
+    parts.push(chunk);
+  }
+
+  return parts.join('');
+}
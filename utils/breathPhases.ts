@@ -0,0 +1,199 @@
+/**
+ * Breath Phases
+ * Splits a breath recording into inspiratory and expiratory phases from the
+ * breath-band envelope and summarizes their durations and I:E ratio
+ */
+
+import { Envelope, envelopeTime, percentile } from './envelope';
+
+export interface BreathPhase {
+  type: 'inspiration' | 'expiration';
+  start: number;    // Seconds
+  end: number;      // Seconds
+  cycle: number;    // Index of the breath cycle this phase belongs to
+}
+
+export interface BreathPhaseAnalysis {
+  phases: BreathPhase[];
+  meanInspiration: number;      // Seconds
+  meanExpiration: number;       // Seconds
+  ieRatio: number;              // Inspiration / expiration duration (1:2 => 0.5)
+  prolongedExpiration: boolean;
+}
+
+// Hysteresis thresholds as a fraction of the envelope's floor-to-peak range
+const ON_THRESHOLD = 0.3;
+const OFF_THRESHOLD = 0.2;
+const MIN_SEGMENT_SECONDS = 0.2;
+const MAX_GAP_SECONDS = 0.15;
+// Phases this close to either end of the recording are treated as truncated
+const EDGE_SECONDS = 0.05;
+// Expiration lasting more than this multiple of inspiration is flagged as prolonged
+const PROLONGED_EXPIRATION_RATIO = 2;
+// Consecutive segments starting further apart than this fraction of the breath
+// period are not inspiration and expiration of the same alternation; a segment
+// was missed or two were merged, so the alternation is worked out afresh
+const RUN_BREAK_RATIO = 0.8;
+
+interface Segment {
+  start: number;    // Envelope index
+  end: number;      // Envelope index (exclusive)
+  energy: number;   // Mean envelope value
+}
+
+// Find sustained above-threshold segments of the envelope
+function findActiveSegments(envelope: Envelope): Segment[] {
+  const { values, rate } = envelope;
+  const floor = percentile(values, 0.1);
+  const peak = percentile(values, 0.95);
+  if (peak <= floor * 1.2) {
+    return [];
+  }
+
+  const on = floor + ON_THRESHOLD * (peak - floor);
+  const off = floor + OFF_THRESHOLD * (peak - floor);
+  const raw: Segment[] = [];
+  let start = -1;
+
+  for (let i = 0; i <= values.length; i++) {
+    const value = i < values.length ? values[i] : -Infinity;
+    if (start < 0 && value >= on) {
+      start = i;
+    } else if (start >= 0 && value < off) {
+      raw.push({ start, end: i, energy: 0 });
+      start = -1;
+    }
+  }
+
+  // Merge segments split by short dips, then drop blips
+  const merged: Segment[] = [];
+  const maxGap = Math.round(MAX_GAP_SECONDS * rate);
+  for (const segment of raw) {
+    const last = merged[merged.length - 1];
+    if (last && segment.start - last.end <= maxGap) {
+      last.end = segment.end;
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+
+  const minLength = Math.round(MIN_SEGMENT_SECONDS * rate);
+  return merged
+    .filter(segment => segment.end - segment.start >= minLength)
+    .map(segment => {
+      let sum = 0;
+      for (let i = segment.start; i < segment.end; i++) sum += values[i];
+      return { ...segment, energy: sum / (segment.end - segment.start) };
+    });
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+// Whether the even-indexed segments of an alternating run are the louder ones
+function evenIsLouder(run: Segment[]): boolean {
+  let evenLouder = 0;
+  for (let i = 0; i + 1 < run.length; i++) {
+    const diff = run[i].energy - run[i + 1].energy;
+    evenLouder += i % 2 === 0 ? diff : -diff;
+  }
+  return evenLouder >= 0;
+}
+
+/**
+ * Segment breathing into phases. When roughly two sound segments occur per
+ * breath period they are labelled alternately, with the louder parity taken as
+ * inspiration. The alternation is decided per run of evenly spaced segments, so
+ * a missed or merged segment doesn't swap the phases for the rest of the
+ * recording. With one segment per breath the segment may be inspiration
+ * alone or both phases merged, so the phases are undetermined and null is
+ * returned rather than a guessed I:E ratio.
+ */
+export function segmentBreathPhases(
+  envelope: Envelope,
+  period?: number
+): BreathPhaseAnalysis | null {
+  const segments = findActiveSegments(envelope);
+  if (segments.length < 2) {
+    return null;
+  }
+
+  const duration = envelope.offset + envelope.values.length / envelope.rate;
+  const toTime = (index: number) => envelopeTime(envelope, index);
+  const phases: BreathPhase[] = [];
+
+  const cycles = period ? duration / period : segments.length / 2;
+  if (segments.length / Math.max(1, cycles) < 1.5) {
+    return null;
+  }
+
+  // Split into runs wherever two segments start too far apart to alternate
+  const breakSpacing = RUN_BREAK_RATIO * (period ?? duration / cycles) * envelope.rate;
+  const runs: Segment[][] = [];
+  segments.forEach((segment, index) => {
+    if (index === 0 || segment.start - segments[index - 1].start > breakSpacing) {
+      runs.push([]);
+    }
+    runs[runs.length - 1].push(segment);
+  });
+
+  // Label each run by its own alternation, putting the louder segments on inspiration
+  const types = runs.map(run => {
+    if (run.length < 2) return null;
+    const evenInspiration = evenIsLouder(run);
+    return run.map((_, index) => (index % 2 === 0) === evenInspiration);
+  });
+
+  // A lone segment has no alternation; it goes with whichever phase it is as loud as
+  const loudness = (inspiration: boolean) => mean(
+    runs.flatMap((run, r) => run.filter((_, index) => types[r]?.[index] === inspiration).map(segment => segment.energy))
+  );
+  const inspirationEnergy = loudness(true);
+  const expirationEnergy = loudness(false);
+
+  let cycle = -1;
+  runs.forEach((run, r) => {
+    run.forEach((segment, index) => {
+      const isInspiration = types[r]?.[index] ??
+        (types.every(type => type === null) ||
+          Math.abs(segment.energy - inspirationEnergy) <= Math.abs(segment.energy - expirationEnergy));
+      // An expiration opening a run belongs to a breath whose inspiration was missed
+      if (isInspiration || index === 0) cycle++;
+      phases.push({
+        type: isInspiration ? 'inspiration' : 'expiration',
+        start: toTime(segment.start),
+        end: toTime(segment.end),
+        cycle,
+      });
+    });
+  });
+
+  // Phases cut off by the start or end of the recording would skew the means
+  const complete = phases.filter(
+    phase => phase.start > EDGE_SECONDS && phase.end < duration - EDGE_SECONDS
+  );
+  const meanInspiration = mean(
+    complete.filter(phase => phase.type === 'inspiration').map(phase => phase.end - phase.start)
+  );
+  const meanExpiration = mean(
+    complete.filter(phase => phase.type === 'expiration').map(phase => phase.end - phase.start)
+  );
+
+  if (meanInspiration === 0 || meanExpiration === 0) {
+    return null;
+  }
+
+  return {
+    phases,
+    meanInspiration,
+    meanExpiration,
+    ieRatio: meanInspiration / meanExpiration,
+    prolongedExpiration: meanExpiration / meanInspiration > PROLONGED_EXPIRATION_RATIO,
+  };
+}
+
+// Format an I:E ratio for display, e.g. 0.5 => "1:2.0"
+export function formatIERatio(ieRatio: number): string {
+  return ieRatio > 0 ? `1:${(1 / ieRatio).toFixed(1)}` : '-';
+}
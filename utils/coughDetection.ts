@@ -0,0 +1,206 @@
+/**
+ * Cough Detection
+ * Finds individual cough events from energy onsets, checks their spectral
+ * shape and splits each into explosive / intermediate / voiced sub-phases
+ */
+
+import { DecodedAudio } from './wav';
+import { bandEnvelope, envelopeTime, percentile } from './envelope';
+
+export interface CoughPhase {
+  type: 'explosive' | 'intermediate' | 'voiced';
+  start: number;          // Seconds
+  end: number;            // Seconds
+}
+
+export interface CoughEvent {
+  start: number;          // Seconds
+  end: number;            // Seconds
+  peakTime: number;       // Seconds
+  peakAmplitude: number;  // Absolute sample peak, 0-1
+  phases: CoughPhase[];
+}
+
+const ENVELOPE_RATE = 200;
+const LOW_BAND = { low: 100, high: 1000 };
+const HIGH_BAND = { low: 1000, high: 4000 };
+
+const MIN_EVENT_SECONDS = 0.1;
+const MAX_EVENT_SECONDS = 1.5;
+// Coughs reach their peak almost immediately after onset
+const MAX_RISE_SECONDS = 0.1;
+// Quiet time needed before an event is considered finished; shorter dips (e.g. before
+// the voiced phase) stay inside the event
+const RELEASE_SECONDS = 0.08;
+// Coughs are broadband; voiced sounds and heart beats have little energy above 1 kHz
+const MIN_HIGH_BAND_RATIO = 0.15;
+// Minimum peak-to-floor ratio for anything to count as an event (~12 dB)
+const MIN_PEAK_TO_FLOOR = 4;
+
+const EXPLOSIVE_DECAY = 0.5;
+const MAX_EXPLOSIVE_SECONDS = 0.08;
+const VOICED_MIN_LEVEL = 0.3;
+const VOICED_MIN_RISE = 1.3;
+
+function argMax(values: Float32Array, from: number, to: number): number {
+  let best = from;
+  for (let i = from + 1; i < to; i++) {
+    if (values[i] > values[best]) best = i;
+  }
+  return best;
+}
+
+function argMin(values: Float32Array, from: number, to: number): number {
+  let best = from;
+  for (let i = from + 1; i < to; i++) {
+    if (values[i] < values[best]) best = i;
+  }
+  return best;
+}
+
+// Split an event (envelope indices [start, end)) into cough sub-phases
+function splitPhases(
+  values: Float32Array,
+  rate: number,
+  start: number,
+  end: number,
+  peak: number
+): { type: CoughPhase['type']; start: number; end: number }[] {
+  const peakValue = values[peak];
+  const explosiveLimit = Math.min(end, peak + Math.round(MAX_EXPLOSIVE_SECONDS * rate));
+  let explosiveEnd = peak + 1;
+  while (explosiveEnd < explosiveLimit && values[explosiveEnd] >= peakValue * EXPLOSIVE_DECAY) {
+    explosiveEnd++;
+  }
+
+  const phases: { type: CoughPhase['type']; start: number; end: number }[] = [
+    { type: 'explosive', start, end: explosiveEnd },
+  ];
+  if (explosiveEnd >= end) {
+    return phases;
+  }
+
+  // A renewed rise after the decay marks vocal fold closure (voiced phase)
+  const searchFrom = Math.min(end - 1, explosiveEnd + Math.round(0.05 * rate));
+  const secondPeak = argMax(values, searchFrom, end);
+  const valley = argMin(values, explosiveEnd, secondPeak + 1);
+  const hasVoiced =
+    secondPeak > valley &&
+    values[secondPeak] >= peakValue * VOICED_MIN_LEVEL &&
+    values[secondPeak] >= values[valley] * VOICED_MIN_RISE;
+
+  if (hasVoiced) {
+    if (valley > explosiveEnd) {
+      phases.push({ type: 'intermediate', start: explosiveEnd, end: valley });
+    }
+    phases.push({ type: 'voiced', start: valley, end });
+  } else {
+    phases.push({ type: 'intermediate', start: explosiveEnd, end });
+  }
+  return phases;
+}
+
+// Detect cough events in a recording
+export function detectCoughs(audio: DecodedAudio): CoughEvent[] {
+  const { samples, sampleRate } = audio;
+  const highBandTop = Math.min(HIGH_BAND.high, sampleRate / 2 - 1);
+  const hasHighBand = highBandTop > HIGH_BAND.low * 1.5;
+
+  const low = bandEnvelope(samples, sampleRate, {
+    lowFrequency: LOW_BAND.low,
+    highFrequency: LOW_BAND.high,
+    rate: ENVELOPE_RATE,
+  });
+  const high = hasHighBand
+    ? bandEnvelope(samples, sampleRate, {
+        lowFrequency: HIGH_BAND.low,
+        highFrequency: highBandTop,
+        rate: ENVELOPE_RATE,
+      })
+    : null;
+
+  const length = Math.min(low.values.length, high ? high.values.length : Infinity);
+  const total = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    const h = high ? high.values[i] : 0;
+    total[i] = Math.sqrt(low.values[i] * low.values[i] + h * h);
+  }
+
+  const floor = Math.max(percentile(total, 0.2), 1e-6);
+  let peakLevel = 0;
+  for (let i = 0; i < length; i++) peakLevel = Math.max(peakLevel, total[i]);
+  if (peakLevel < floor * MIN_PEAK_TO_FLOOR) {
+    return [];
+  }
+
+  const rate = low.rate;
+  const on = Math.max(floor * 3, floor + 0.1 * (peakLevel - floor));
+  const off = Math.max(floor * 2, floor + 0.05 * (peakLevel - floor));
+  const release = Math.max(1, Math.round(RELEASE_SECONDS * rate));
+  const envelope = { ...low, values: total };
+  const events: CoughEvent[] = [];
+
+  let i = 0;
+  while (i < length) {
+    if (total[i] < on) {
+      i++;
+      continue;
+    }
+
+    // Walk back to where the rise left the floor, then forward until it stays quiet
+    let start = i;
+    while (start > 0 && total[start - 1] >= off && total[start - 1] < total[start]) start--;
+    let end = i;
+    let quiet = 0;
+    while (end < length && quiet < release) {
+      quiet = total[end] < off ? quiet + 1 : 0;
+      end++;
+    }
+    end -= quiet;
+    i = end + 1;
+
+    const duration = (end - start) / rate;
+    if (duration < MIN_EVENT_SECONDS || duration > MAX_EVENT_SECONDS) continue;
+
+    const peak = argMax(total, start, end);
+    if ((peak - start) / rate > MAX_RISE_SECONDS) continue;
+
+    if (high) {
+      let highEnergy = 0;
+      let allEnergy = 0;
+      for (let k = start; k < end; k++) {
+        highEnergy += high.values[k] * high.values[k];
+        allEnergy += total[k] * total[k];
+      }
+      if (allEnergy === 0 || highEnergy / allEnergy < MIN_HIGH_BAND_RATIO) continue;
+    }
+
+    const startTime = envelopeTime(envelope, start);
+    const endTime = envelopeTime(envelope, end);
+    let peakAmplitude = 0;
+    const firstSample = Math.max(0, Math.floor(startTime * sampleRate));
+    const lastSample = Math.min(samples.length, Math.ceil(endTime * sampleRate));
+    for (let k = firstSample; k < lastSample; k++) {
+      peakAmplitude = Math.max(peakAmplitude, Math.abs(samples[k]));
+    }
+
+    events.push({
+      start: startTime,
+      end: endTime,
+      peakTime: envelopeTime(envelope, peak),
+      peakAmplitude,
+      phases: splitPhases(total, rate, start, end, peak).map(phase => ({
+        type: phase.type,
+        start: envelopeTime(envelope, phase.start),
+        end: envelopeTime(envelope, phase.end),
+      })),
+    });
+  }
+
+  return events;
+}
+
+// Summary label for a cough count, e.g. "3 coughs detected"
+export function formatCoughCount(count: number): string {
+  return `${count} ${count === 1 ? 'cough' : 'coughs'} detected`;
+}
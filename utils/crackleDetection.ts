@@ -0,0 +1,174 @@
+/**
+ * Crackle Detection
+ * Finds short explosive transients (discontinuous adventitious sounds) and
+ * classifies them as fine or coarse from their waveform timing
+ */
+
+import { DecodedAudio } from './wav';
+import { movingAverage } from './envelope';
+import { BreathPhase } from './breathPhases';
+
+export interface Crackle {
+  time: number;                     // Seconds, start of the initial deflection
+  type: 'fine' | 'coarse';
+  initialDeflectionWidth: number;   // Milliseconds (IDW)
+  twoCycleDuration: number;         // Milliseconds (2CD)
+  phase?: BreathPhase['type'];
+}
+
+export interface CrackleCounts {
+  fine: number;
+  coarse: number;
+}
+
+export interface CrackleAnalysis {
+  crackles: Crackle[];
+  fineCount: number;
+  coarseCount: number;
+  // Counts per breath phase; null when the breath phases are unknown
+  byPhase: Record<BreathPhase['type'], CrackleCounts> | null;
+}
+
+// Crackles with a two-cycle duration below this are fine, above it coarse (CORSA)
+export const FINE_CRACKLE_MAX_2CD_MS = 10;
+
+// Removes breath-sound rumble, heart sounds and DC before looking for transients
+const HIGH_PASS_FREQUENCY = 100;
+// Window of the running background level the transients are compared against
+const BACKGROUND_SECONDS = 0.1;
+// A crackle must exceed the background RMS by this factor
+const MIN_PEAK_TO_BACKGROUND = 5;
+const MAX_IDW_MS = 5;
+const MAX_2CD_MS = 25;
+// Minimum spacing between two crackles
+const REFRACTORY_SECONDS = 0.01;
+// Isolated transients such as a tone's onset pass the tests above, so crackles
+// are only reported when they recur in the breath cycles (per inspiration when
+// the phases are known)
+const MIN_CRACKLES_PER_BREATH = 2;
+
+// First-order high-pass filter
+function highPass(samples: Float32Array, sampleRate: number, cutoff: number): Float32Array {
+  const rc = 1 / (2 * Math.PI * cutoff);
+  const alpha = rc / (rc + 1 / sampleRate);
+  const output = new Float32Array(samples.length);
+  let previousInput = 0;
+  let previousOutput = 0;
+  for (let i = 0; i < samples.length; i++) {
+    previousOutput = alpha * (previousOutput + samples[i] - previousInput);
+    previousInput = samples[i];
+    output[i] = previousOutput;
+  }
+  return output;
+}
+
+// Index of the next zero crossing after `from` (or -1 before `limit`). Crossings
+// only count once the signal swings past `gate` on the other side, so background
+// noise riding on a decaying deflection doesn't add spurious crossings.
+function nextZeroCrossing(signal: Float32Array, from: number, limit: number, gate: number): number {
+  const end = Math.min(signal.length - 1, limit);
+  const positive = signal[from] >= 0;
+  let crossing = -1;
+  for (let i = from; i < end; i++) {
+    const value = signal[i + 1];
+    if (crossing < 0 && (value >= 0) !== positive) {
+      crossing = i + 1;
+    } else if (crossing >= 0 && (value >= 0) === positive) {
+      crossing = -1;
+    }
+    if (crossing >= 0 && Math.abs(value) >= gate) return crossing;
+  }
+  return -1;
+}
+
+function phaseAt(time: number, phases: BreathPhase[]): BreathPhase['type'] | undefined {
+  return phases.find(phase => time >= phase.start && time < phase.end)?.type;
+}
+
+// Detect crackles in a recording, optionally counting them per breath phase
+export function detectCrackles(audio: DecodedAudio, phases?: BreathPhase[]): CrackleAnalysis {
+  const { sampleRate } = audio;
+  const signal = highPass(audio.samples, sampleRate, HIGH_PASS_FREQUENCY);
+
+  const squared = new Float32Array(signal.length);
+  for (let i = 0; i < signal.length; i++) squared[i] = signal[i] * signal[i];
+  const backgroundWindow = Math.round(BACKGROUND_SECONDS * sampleRate);
+  const background = movingAverage(squared, backgroundWindow);
+
+  const toSamples = (ms: number) => Math.round((ms / 1000) * sampleRate);
+  const toMs = (count: number) => (count / sampleRate) * 1000;
+  const maxIdw = toSamples(MAX_IDW_MS);
+  const max2cd = toSamples(MAX_2CD_MS);
+  const refractory = Math.round(REFRACTORY_SECONDS * sampleRate);
+  const crackles: Crackle[] = [];
+
+  let i = 0;
+  while (i < signal.length) {
+    // Background from the window just before this sample, so a crackle doesn't mask itself
+    const level = Math.sqrt(background[Math.max(0, i - Math.ceil(backgroundWindow / 2))]);
+    const threshold = MIN_PEAK_TO_BACKGROUND * level;
+    if (threshold === 0 || Math.abs(signal[i]) < threshold) {
+      i++;
+      continue;
+    }
+
+    // The initial deflection starts at the zero crossing before the onset
+    let start = i;
+    while (start > 0 && i - start < maxIdw && (signal[start - 1] >= 0) === (signal[i] >= 0)) start--;
+
+    // IDW: first half cycle; 2CD: two full cycles (four zero crossings)
+    const crossings: number[] = [];
+    let position = start;
+    while (crossings.length < 4) {
+      const crossing = nextZeroCrossing(signal, position, start + max2cd, level);
+      if (crossing < 0) break;
+      crossings.push(crossing);
+      position = crossing;
+    }
+
+    if (crossings.length === 4 && crossings[0] - start <= maxIdw) {
+      const twoCycleDuration = toMs(crossings[3] - start);
+      const time = start / sampleRate;
+      crackles.push({
+        time,
+        type: twoCycleDuration < FINE_CRACKLE_MAX_2CD_MS ? 'fine' : 'coarse',
+        initialDeflectionWidth: toMs(crossings[0] - start),
+        twoCycleDuration,
+        phase: phases ? phaseAt(time, phases) : undefined,
+      });
+      i = Math.max(crossings[3], start + refractory);
+    } else {
+      i = start + refractory;
+    }
+  }
+
+  let byPhase: CrackleAnalysis['byPhase'] = null;
+  if (phases) {
+    byPhase = {
+      inspiration: { fine: 0, coarse: 0 },
+      expiration: { fine: 0, coarse: 0 },
+    };
+    for (const crackle of crackles) {
+      if (crackle.phase) byPhase[crackle.phase][crackle.type]++;
+    }
+  }
+
+  return {
+    crackles,
+    fineCount: crackles.filter(crackle => crackle.type === 'fine').length,
+    coarseCount: crackles.filter(crackle => crackle.type === 'coarse').length,
+    byPhase,
+  };
+}
+
+/**
+ * Whether the detected crackles recur often enough to report, given the number
+ * of breaths in the recording. Counts inspiratory crackles when the phases are
+ * known, as that is where crackles are heard.
+ */
+export function cracklesPresent(analysis: CrackleAnalysis, breaths: number): boolean {
+  const count = analysis.byPhase
+    ? analysis.byPhase.inspiration.fine + analysis.byPhase.inspiration.coarse
+    : analysis.crackles.length;
+  return count >= MIN_CRACKLES_PER_BREATH * Math.max(1, breaths);
+}
@@ -0,0 +1,259 @@
+/**
+ * Encryption
+ * Encrypts recordings and health metadata at rest with a per-install key kept
+ * in the platform keystore. Values written before encryption was enabled read
+ * back unchanged, so existing data can be encrypted in place.
+ */
+
+import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
+import * as FileSystem from 'expo-file-system';
+import { xchacha20poly1305 } from '@noble/ciphers/chacha';
+import { base64ToBytes, bytesToBase64 } from './base64';
+
+const KEYRING_KEY = 'stethopulse_data_keys';
+const KEY_BYTES = 32;
+const NONCE_BYTES = 24;
+// Envelope: magic, key id (uint32 BE), nonce, ciphertext with tag
+const MAGIC = [0x53, 0x50, 0x45, 0x31];                 // 'SPE1'
+const HEADER_BYTES = MAGIC.length + 4 + NONCE_BYTES;
+const STRING_PREFIX = 'spe1:';
+const DECRYPTED_DIRECTORY = `${FileSystem.cacheDirectory}decrypted/`;
+
+interface DataKey {
+  id: number;
+  key: string;                // Base64
+  createdAt: string;
+}
+
+// All keys still needed to read stored data; new data uses the current one
+interface Keyring {
+  current: number;
+  keys: DataKey[];
+}
+
+export interface EncryptionStatus {
+  keyId: number;
+  keyCreatedAt: string;
+  retiredKeys: number;        // Older keys kept until their data is re-encrypted
+}
+
+let keyringLoad: Promise<Keyring> | null = null;
+// Key changes wait for file encryptions in progress and new ones wait for key
+// changes, so no file is written under a key that is being replaced
+let keyChange: Promise<unknown> = Promise.resolve();
+const fileWrites = new Map<string, Promise<void>>();
+
+function createKey(id: number): DataKey {
+  return {
+    id,
+    key: bytesToBase64(Crypto.getRandomBytes(KEY_BYTES)),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+async function saveKeyring(keyring: Keyring): Promise<void> {
+  await SecureStore.setItemAsync(KEYRING_KEY, JSON.stringify(keyring));
+  keyringLoad = Promise.resolve(keyring);
+}
+
+// Load the keyring, creating the install's first key on first use
+function loadKeyring(): Promise<Keyring> {
+  if (!keyringLoad) {
+    keyringLoad = (async () => {
+      const stored = await SecureStore.getItemAsync(KEYRING_KEY);
+      if (stored) return JSON.parse(stored) as Keyring;
+
+      const keyring: Keyring = { current: 1, keys: [createKey(1)] };
+      await SecureStore.setItemAsync(KEYRING_KEY, JSON.stringify(keyring));
+      return keyring;
+    })();
+    // Retry on the next call rather than caching a keystore failure
+    keyringLoad.catch(() => {
+      keyringLoad = null;
+    });
+  }
+  return keyringLoad;
+}
+
+async function keyBytes(id: number): Promise<Uint8Array> {
+  const entry = (await loadKeyring()).keys.find(key => key.id === id);
+  if (!entry) {
+    throw new Error(`Encryption key ${id} is not available`);
+  }
+  return base64ToBytes(entry.key);
+}
+
+export function isEncrypted(bytes: Uint8Array): boolean {
+  return bytes.length >= HEADER_BYTES && MAGIC.every((byte, i) => bytes[i] === byte);
+}
+
+export const isEncryptedString = (value: string) => value.startsWith(STRING_PREFIX);
+
+// Id of the key an envelope was written with
+function envelopeKeyId(bytes: Uint8Array): number {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(MAGIC.length);
+}
+
+export async function encryptBytes(plain: Uint8Array): Promise<Uint8Array> {
+  const { current } = await loadKeyring();
+  const nonce = Crypto.getRandomBytes(NONCE_BYTES);
+  const sealed = xchacha20poly1305(await keyBytes(current), nonce).encrypt(plain);
+
+  const envelope = new Uint8Array(HEADER_BYTES + sealed.length);
+  envelope.set(MAGIC, 0);
+  new DataView(envelope.buffer).setUint32(MAGIC.length, current);
+  envelope.set(nonce, MAGIC.length + 4);
+  envelope.set(sealed, HEADER_BYTES);
+  return envelope;
+}
+
+// Decrypt an envelope; bytes that were never encrypted are returned as they are
+export async function decryptBytes(data: Uint8Array): Promise<Uint8Array> {
+  if (!isEncrypted(data)) return data;
+  const nonce = data.subarray(MAGIC.length + 4, HEADER_BYTES);
+  return xchacha20poly1305(await keyBytes(envelopeKeyId(data)), nonce)
+    .decrypt(data.subarray(HEADER_BYTES));
+}
+
+export async function encryptString(text: string): Promise<string> {
+  return STRING_PREFIX + bytesToBase64(await encryptBytes(new TextEncoder().encode(text)));
+}
+
+export async function decryptString(value: string): Promise<string> {
+  if (!isEncryptedString(value)) return value;
+  const plain = await decryptBytes(base64ToBytes(value.slice(STRING_PREFIX.length)));
+  return new TextDecoder().decode(plain);
+}
+
+// Whether a stored string is missing encryption or uses a retired key
+export async function needsReencryption(value: string): Promise<boolean> {
+  if (!isEncryptedString(value)) return true;
+  const envelope = base64ToBytes(value.slice(STRING_PREFIX.length, STRING_PREFIX.length + 12));
+  return envelopeKeyId(envelope) !== (await loadKeyring()).current;
+}
+
+async function readFileBytes(uri: string, length?: number): Promise<Uint8Array> {
+  return base64ToBytes(await FileSystem.readAsStringAsync(uri, {
+    encoding: FileSystem.EncodingType.Base64,
+    ...(length !== undefined ? { position: 0, length } : {}),
+  }));
+}
+
+// Read a file's contents, decrypting them if the file is encrypted
+export async function readDecryptedFile(uri: string): Promise<Uint8Array> {
+  return decryptBytes(await readFileBytes(uri));
+}
+
+// Run a key change once no file encryption is in progress
+function changingKeys<T>(task: () => Promise<T>): Promise<T> {
+  const result = keyChange.then(async () => {
+    await Promise.allSettled(fileWrites.values());
+    return task();
+  });
+  keyChange = result.catch(() => undefined);
+  return result;
+}
+
+/**
+ * Encrypt a file in place under the current key. Plain files are encrypted
+ * and files under a retired key re-encrypted; others are left alone.
+ */
+export async function encryptFile(uri: string): Promise<void> {
+  // Wait out key changes, including any queued while waiting
+  let pending;
+  do {
+    pending = keyChange;
+    await pending;
+  } while (pending !== keyChange);
+
+  const write = writeEncryptedFile(uri);
+  fileWrites.set(uri, write);
+  try {
+    await write;
+  } finally {
+    if (fileWrites.get(uri) === write) fileWrites.delete(uri);
+  }
+}
+
+// Whether encryptFile is writing this file, and so owns its temporary copy
+export const isEncrypting = (uri: string) => fileWrites.has(uri);
+
+async function writeEncryptedFile(uri: string): Promise<void> {
+  const header = await readFileBytes(uri, HEADER_BYTES);
+  const { current } = await loadKeyring();
+  if (isEncrypted(header) && envelopeKeyId(header) === current) return;
+
+  const sealed = await encryptBytes(await readDecryptedFile(uri));
+  // Write beside the original and swap, so an interrupted write can't lose the file
+  const temporary = `${uri}.encrypting`;
+  await FileSystem.writeAsStringAsync(temporary, bytesToBase64(sealed), {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  await FileSystem.moveAsync({ from: temporary, to: uri });
+}
+
+/**
+ * A plain copy of an encrypted file in the cache, for native APIs such as
+ * playback that need to open the file themselves. Plain files are returned
+ * as they are. Callers delete the copy with deleteDecryptedCopy when done.
+ */
+export async function decryptedCopy(uri: string): Promise<string> {
+  if (!isEncrypted(await readFileBytes(uri, HEADER_BYTES))) return uri;
+
+  const dirInfo = await FileSystem.getInfoAsync(DECRYPTED_DIRECTORY);
+  if (!dirInfo.exists) {
+    await FileSystem.makeDirectoryAsync(DECRYPTED_DIRECTORY, { intermediates: true });
+  }
+  // Keep the extension; playback uses it to pick a decoder
+  const copyUri = `${DECRYPTED_DIRECTORY}${Date.now()}-${uri.split('/').pop()}`;
+  await FileSystem.writeAsStringAsync(copyUri, bytesToBase64(await readDecryptedFile(uri)), {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  return copyUri;
+}
+
+export async function deleteDecryptedCopy(uri: string): Promise<void> {
+  if (!uri.startsWith(DECRYPTED_DIRECTORY)) return;
+  await FileSystem.deleteAsync(uri, { idempotent: true });
+}
+
+// Remove plain copies left behind, e.g. by a crash during playback
+export async function clearDecryptedCopies(): Promise<void> {
+  try {
+    await FileSystem.deleteAsync(DECRYPTED_DIRECTORY, { idempotent: true });
+  } catch (error) {
+    console.error('Error clearing decrypted copies:', error);
+  }
+}
+
+export async function getEncryptionStatus(): Promise<EncryptionStatus> {
+  const keyring = await loadKeyring();
+  const current = keyring.keys.find(key => key.id === keyring.current);
+  return {
+    keyId: keyring.current,
+    keyCreatedAt: current?.createdAt ?? '',
+    retiredKeys: keyring.keys.length - 1,
+  };
+}
+
+// Make a new key current; older keys stay until retireOldKeys
+export function addKey(): Promise<number> {
+  return changingKeys(async () => {
+    const keyring = await loadKeyring();
+    const id = Math.max(...keyring.keys.map(key => key.id)) + 1;
+    await saveKeyring({ current: id, keys: [...keyring.keys, createKey(id)] });
+    return id;
+  });
+}
+
+// Forget every key but the current one. Only call once all data is re-encrypted.
+export function retireOldKeys(): Promise<void> {
+  return changingKeys(async () => {
+    const keyring = await loadKeyring();
+    await saveKeyring({
+      current: keyring.current,
+      keys: keyring.keys.filter(key => key.id === keyring.current),
+    });
+  });
+}
@@ -0,0 +1,131 @@
+/**
+ * Envelope
+ * Band-limited energy envelopes and small helpers for working with them
+ */
+
+import { stft } from './fft';
+
+export interface Envelope {
+  values: Float32Array;
+  rate: number;       // Envelope samples per second
+  offset: number;     // Time (seconds) of values[0]
+}
+
+export interface EnvelopeOptions {
+  lowFrequency: number;
+  highFrequency: number;
+  rate?: number;      // Desired envelope rate; the actual rate is sampleRate / hop
+}
+
+const DEFAULT_ENVELOPE_RATE = 50;
+
+// RMS amplitude envelope of the given frequency band, computed from the STFT
+export function bandEnvelope(
+  samples: Float32Array,
+  sampleRate: number,
+  options: EnvelopeOptions
+): Envelope {
+  const targetRate = options.rate ?? DEFAULT_ENVELOPE_RATE;
+  const hopSize = Math.max(1, Math.round(sampleRate / targetRate));
+  // Window at least two hops long and fine enough to resolve the band edges
+  let fftSize = 256;
+  while (fftSize < hopSize * 2 || sampleRate / fftSize > options.lowFrequency / 2) {
+    if (fftSize >= 8192) break;
+    fftSize <<= 1;
+  }
+
+  const spectrum = stft(samples, {
+    fftSize,
+    hopSize,
+    sampleRate,
+    window: 'hann',
+    minFrequency: options.lowFrequency,
+    maxFrequency: options.highFrequency,
+  });
+
+  const values = new Float32Array(spectrum.frames);
+  const { bins, data } = spectrum;
+  for (let frame = 0; frame < spectrum.frames; frame++) {
+    let energy = 0;
+    for (let bin = 0; bin < bins; bin++) {
+      const magnitude = data[frame * bins + bin];
+      energy += magnitude * magnitude;
+    }
+    values[frame] = Math.sqrt(energy);
+  }
+
+  return {
+    values,
+    rate: sampleRate / hopSize,
+    offset: fftSize / 2 / sampleRate,
+  };
+}
+
+// Centred moving average over `windowSize` samples
+export function movingAverage(values: Float32Array, windowSize: number): Float32Array {
+  const half = Math.max(0, Math.floor(windowSize / 2));
+  const result = new Float32Array(values.length);
+  let sum = 0;
+  let count = 0;
+  let lo = 0;
+  let hi = -1;
+
+  for (let i = 0; i < values.length; i++) {
+    const from = Math.max(0, i - half);
+    const to = Math.min(values.length - 1, i + half);
+    while (hi < to) {
+      hi++;
+      sum += values[hi];
+      count++;
+    }
+    while (lo < from) {
+      sum -= values[lo];
+      lo++;
+      count--;
+    }
+    result[i] = count > 0 ? sum / count : 0;
+  }
+
+  return result;
+}
+
+// Normalized autocorrelation of a zero-mean signal for lags [minLag, maxLag]
+export function autocorrelation(values: Float32Array, minLag: number, maxLag: number): Float32Array {
+  const n = values.length;
+  let mean = 0;
+  for (let i = 0; i < n; i++) mean += values[i];
+  mean /= n;
+
+  const centred = new Float32Array(n);
+  for (let i = 0; i < n; i++) centred[i] = values[i] - mean;
+
+  const result = new Float32Array(maxLag + 1);
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let cross = 0;
+    let energyA = 0;
+    let energyB = 0;
+    for (let i = 0; i + lag < n; i++) {
+      const a = centred[i];
+      const b = centred[i + lag];
+      cross += a * b;
+      energyA += a * a;
+      energyB += b * b;
+    }
+    const denom = Math.sqrt(energyA * energyB);
+    result[lag] = denom > 0 ? cross / denom : 0;
+  }
+  return result;
+}
+
+// Value at the given quantile (0-1) of an array
+export function percentile(values: ArrayLike<number>, quantile: number): number {
+  if (values.length === 0) return 0;
+  const sorted = Float32Array.from(values).sort();
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(quantile * (sorted.length - 1))));
+  return sorted[index];
+}
+
+// Time (seconds) of envelope sample `index`
+export function envelopeTime(envelope: Envelope, index: number): number {
+  return envelope.offset + index / envelope.rate;
+}
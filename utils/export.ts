@@ -0,0 +1,171 @@
+/**
+ * Data Export
+ * Packs recordings, their metadata and optionally cached spectrograms into a
+ * portable ZIP archive, and shares it. Archives hold decrypted data, so they
+ * are written to the cache and deleted once shared.
+ */
+
+import * as FileSystem from 'expo-file-system';
+import { File } from 'expo-file-system/next';
+import * as Sharing from 'expo-sharing';
+import { Recording, Session } from '@/types/recording';
+import { queryRecordings, getSessions, spectrogramPath } from './storage';
+import { SCHEMA_VERSION } from './migrations';
+import { readDecryptedFile, decryptString } from './encryption';
+import { createZipWriter } from './zip';
+
+const EXPORTS_DIRECTORY = `${FileSystem.cacheDirectory}exports/`;
+const EXPORT_FORMAT = 'stethopulse-export';
+const EXPORT_FORMAT_VERSION = 1;
+
+export interface ExportOptions {
+  from?: string;                  // ISO date, inclusive
+  to?: string;                    // ISO date, exclusive
+  type?: Recording['type'];
+  patient?: string;
+  includeSpectrograms?: boolean;
+}
+
+// A recording as listed in the manifest; paths are relative to the archive root
+export interface ManifestRecording extends Omit<Recording, 'uri'> {
+  audioFile: string | null;       // Null when the audio file was missing
+  spectrogramFile?: string;
+}
+
+export interface ExportManifest {
+  format: typeof EXPORT_FORMAT;
+  formatVersion: number;
+  schemaVersion: number;
+  exportedAt: string;
+  filters: Omit<ExportOptions, 'includeSpectrograms'>;
+  recordings: ManifestRecording[];
+  sessions: Session[];
+}
+
+export interface ExportResult {
+  uri: string;
+  recordingCount: number;
+  missingAudio: string[];         // Ids of recordings exported without audio
+  size: number;                   // Bytes
+}
+
+const fileName = (uri: string) => uri.split('/').pop() ?? uri;
+
+// Archives are meant to be opened elsewhere, so their contents are decrypted
+async function readAudio(uri: string): Promise<Uint8Array | null> {
+  const fileInfo = await FileSystem.getInfoAsync(uri);
+  if (!fileInfo.exists) return null;
+  return readDecryptedFile(uri);
+}
+
+async function readSpectrogram(uri: string): Promise<Uint8Array | null> {
+  const fileInfo = await FileSystem.getInfoAsync(uri);
+  if (!fileInfo.exists) return null;
+  return new TextEncoder().encode(await decryptString(await FileSystem.readAsStringAsync(uri)));
+}
+
+// Count the recordings an export with these filters would contain
+export async function countExportable({ from, to, type, patient }: ExportOptions = {}): Promise<number> {
+  return (await queryRecordings({ from, to, type, patient, limit: 0 })).total;
+}
+
+// Build an archive of the recordings matching the filters
+export async function exportRecordings(options: ExportOptions = {}): Promise<ExportResult> {
+  try {
+    const { includeSpectrograms, ...filters } = options;
+    const { recordings } = await queryRecordings(filters);
+    if (recordings.length === 0) {
+      throw new Error('No recordings match the selected filters');
+    }
+
+    const dirInfo = await FileSystem.getInfoAsync(EXPORTS_DIRECTORY);
+    if (!dirInfo.exists) {
+      await FileSystem.makeDirectoryAsync(EXPORTS_DIRECTORY, { intermediates: true });
+    }
+
+    // Entries are written out as they are read, so only one decrypted file is held at a time
+    const uri = `${EXPORTS_DIRECTORY}stethopulse-export-${Date.now()}.zip`;
+    const file = new File(uri);
+    file.create();
+    const handle = file.open();
+    const zip = createZipWriter(bytes => handle.writeBytes(bytes));
+
+    const manifestRecordings: ManifestRecording[] = [];
+    const missingAudio: string[] = [];
+    let size: number;
+
+    try {
+      for (const recording of recordings) {
+        const { uri: audioUri, ...metadata } = recording;
+        const entry: ManifestRecording = { ...metadata, audioFile: null };
+
+        const audio = await readAudio(audioUri);
+        if (audio) {
+          // Prefix the id so files with the same name cannot collide
+          entry.audioFile = `audio/${recording.id.replace(/[^\w.-]/g, '_')}-${fileName(audioUri)}`;
+          zip.add({ name: entry.audioFile, data: audio, modifiedAt: new Date(recording.createdAt) });
+        } else {
+          missingAudio.push(recording.id);
+        }
+
+        if (includeSpectrograms) {
+          const spectrogram = await readSpectrogram(spectrogramPath(recording.id));
+          if (spectrogram) {
+            entry.spectrogramFile = `spectrograms/${fileName(spectrogramPath(recording.id))}`;
+            zip.add({ name: entry.spectrogramFile, data: spectrogram });
+          }
+        }
+
+        manifestRecordings.push(entry);
+      }
+
+      // The manifest lists the files above, so it goes last
+      const sessionIds = new Set(recordings.map(recording => recording.sessionId));
+      const manifest: ExportManifest = {
+        format: EXPORT_FORMAT,
+        formatVersion: EXPORT_FORMAT_VERSION,
+        schemaVersion: SCHEMA_VERSION,
+        exportedAt: new Date().toISOString(),
+        filters,
+        recordings: manifestRecordings,
+        sessions: (await getSessions()).filter(session => sessionIds.has(session.id)),
+      };
+      zip.add({
+        name: 'manifest.json',
+        data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)),
+      });
+      size = zip.finish();
+    } catch (error) {
+      handle.close();
+      await deleteExport(uri);
+      throw error;
+    }
+    handle.close();
+
+    return { uri, recordingCount: recordings.length, missingAudio, size };
+  } catch (error) {
+    console.error('Error exporting recordings:', error);
+    throw error;
+  }
+}
+
+// Hand an archive to the system share sheet
+export async function shareExport(uri: string): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  await Sharing.shareAsync(uri, {
+    mimeType: 'application/zip',
+    UTI: 'public.zip-archive',
+    dialogTitle: 'Export recordings',
+  });
+}
+
+// Delete an archive once it has been shared
+export async function deleteExport(uri: string): Promise<void> {
+  try {
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+  } catch (error) {
+    console.error('Error deleting export:', error);
+  }
+}
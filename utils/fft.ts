@@ -0,0 +1,368 @@
+/**
+ * FFT / STFT
+ * Iterative radix-2 real FFT with cached plans, window functions and a
+ * short-time Fourier transform that writes frames × bins into a flat typed array
+ */
+
+export type WindowType = 'hann' | 'hamming' | 'blackman' | 'rectangular';
+
+export interface STFTOptions {
+  fftSize?: number;       // Must be a power of two
+  hopSize?: number;
+  window?: WindowType;
+  sampleRate?: number;
+  minFrequency?: number;  // Only keep bins at or above this frequency (Hz)
+  maxFrequency?: number;  // Only keep bins at or below this frequency (Hz)
+}
+
+export interface STFTResult {
+  data: Float32Array;     // Amplitude spectrum, row-major: data[frame * bins + bin]
+  frames: number;
+  bins: number;
+  fftSize: number;
+  hopSize: number;
+  sampleRate: number;
+  firstBin: number;       // FFT bin index of column 0
+  binWidth: number;       // Hz per bin
+}
+
+const DEFAULT_FFT_SIZE = 1024;
+const DEFAULT_SAMPLE_RATE = 44100;
+// Frames processed between yields to the event loop in stftAsync
+const DEFAULT_YIELD_EVERY = 128;
+
+export function isPowerOfTwo(n: number): boolean {
+  return n > 0 && (n & (n - 1)) === 0;
+}
+
+export function nextPowerOfTwo(n: number): number {
+  let size = 1;
+  while (size < n) size <<= 1;
+  return size;
+}
+
+/**
+ * Real-input FFT of size N, computed as an N/2-point complex FFT followed by
+ * a split step. Bit-reversal and twiddle tables are built once per size.
+ */
+export class RealFFT {
+  readonly size: number;
+  private readonly half: number;
+  private readonly bitReversed: Uint32Array;
+  private readonly cosTable: Float64Array;   // cos(2πk/N), k < N/2
+  private readonly sinTable: Float64Array;   // sin(2πk/N), k < N/2
+  private readonly re: Float64Array;
+  private readonly im: Float64Array;
+  // Scratch buffers for `inverse`, allocated on first use
+  private hartley?: Float64Array;
+  private scratchRe?: Float64Array;
+  private scratchIm?: Float64Array;
+
+  constructor(size: number) {
+    if (!isPowerOfTwo(size) || size < 4) {
+      throw new Error(`FFT size must be a power of two >= 4, got ${size}`);
+    }
+
+    this.size = size;
+    this.half = size >> 1;
+    this.re = new Float64Array(this.half);
+    this.im = new Float64Array(this.half);
+
+    this.cosTable = new Float64Array(this.half);
+    this.sinTable = new Float64Array(this.half);
+    for (let k = 0; k < this.half; k++) {
+      const angle = (2 * Math.PI * k) / size;
+      this.cosTable[k] = Math.cos(angle);
+      this.sinTable[k] = Math.sin(angle);
+    }
+
+    const bits = Math.log2(this.half);
+    this.bitReversed = new Uint32Array(this.half);
+    for (let i = 0; i < this.half; i++) {
+      let reversed = 0;
+      for (let b = 0; b < bits; b++) {
+        reversed = (reversed << 1) | ((i >> b) & 1);
+      }
+      this.bitReversed[i] = reversed;
+    }
+  }
+
+  /**
+   * Transform `input` (length N, shorter input is zero-padded) and write the
+   * N/2 + 1 non-redundant bins into `outRe` / `outIm`.
+   */
+  forward(input: ArrayLike<number>, outRe: Float64Array, outIm: Float64Array): void {
+    const { half, re, im, bitReversed, cosTable, sinTable } = this;
+
+    // Pack even samples into the real part and odd samples into the imaginary part
+    for (let i = 0; i < half; i++) {
+      const j = bitReversed[i];
+      const even = 2 * i < input.length ? input[2 * i] : 0;
+      const odd = 2 * i + 1 < input.length ? input[2 * i + 1] : 0;
+      re[j] = even;
+      im[j] = odd;
+    }
+
+    // In-place iterative butterflies. The N/2-point twiddle for index k is the
+    // N-point twiddle for index 2k, so the shared tables are strided.
+    for (let blockSize = 2; blockSize <= half; blockSize <<= 1) {
+      const blockHalf = blockSize >> 1;
+      const stride = (half / blockSize) * 2;
+      for (let start = 0; start < half; start += blockSize) {
+        for (let j = 0; j < blockHalf; j++) {
+          const t = j * stride;
+          const wr = cosTable[t];
+          const wi = -sinTable[t];
+          const a = start + j;
+          const b = a + blockHalf;
+          const tr = wr * re[b] - wi * im[b];
+          const ti = wr * im[b] + wi * re[b];
+          re[b] = re[a] - tr;
+          im[b] = im[a] - ti;
+          re[a] += tr;
+          im[a] += ti;
+        }
+      }
+    }
+
+    // Split the packed spectrum into the spectrum of the real input
+    outRe[0] = re[0] + im[0];
+    outIm[0] = 0;
+    outRe[half] = re[0] - im[0];
+    outIm[half] = 0;
+
+    for (let k = 1; k < half; k++) {
+      const ar = re[k];
+      const ai = im[k];
+      const br = re[half - k];
+      const bi = im[half - k];
+
+      const evenRe = (ar + br) / 2;
+      const evenIm = (ai - bi) / 2;
+      const oddRe = (ai + bi) / 2;
+      const oddIm = (br - ar) / 2;
+
+      const wr = cosTable[k];
+      const wi = -sinTable[k];
+      outRe[k] = evenRe + wr * oddRe - wi * oddIm;
+      outIm[k] = evenIm + wr * oddIm + wi * oddRe;
+    }
+  }
+
+  /**
+   * Inverse of `forward`: rebuild N real samples from the N/2 + 1 bins in
+   * `inRe` / `inIm`. Uses the Hartley identity so the forward transform can be
+   * reused: the spectrum is folded into a real sequence, transformed again and
+   * unfolded.
+   */
+  inverse(inRe: Float64Array, inIm: Float64Array, output: Float64Array | Float32Array): void {
+    const { size, half } = this;
+    if (!this.hartley) {
+      this.hartley = new Float64Array(size);
+      this.scratchRe = new Float64Array(half + 1);
+      this.scratchIm = new Float64Array(half + 1);
+    }
+    const hartley = this.hartley;
+    const re = this.scratchRe as Float64Array;
+    const im = this.scratchIm as Float64Array;
+
+    // H[k] = Re X[k] - Im X[k], with X[N - k] = conj(X[k]) above N/2
+    for (let k = 0; k <= half; k++) {
+      hartley[k] = inRe[k] - inIm[k];
+    }
+    for (let k = half + 1; k < size; k++) {
+      hartley[k] = inRe[size - k] + inIm[size - k];
+    }
+
+    this.forward(hartley, re, im);
+
+    for (let n = 0; n <= half; n++) {
+      output[n] = (re[n] - im[n]) / size;
+    }
+    for (let n = half + 1; n < size; n++) {
+      output[n] = (re[size - n] + im[size - n]) / size;
+    }
+  }
+}
+
+const planCache = new Map<number, RealFFT>();
+
+// Get a cached FFT plan for the given size
+export function getFFT(size: number): RealFFT {
+  let plan = planCache.get(size);
+  if (!plan) {
+    plan = new RealFFT(size);
+    planCache.set(size, plan);
+  }
+  return plan;
+}
+
+const windowCache = new Map<string, Float32Array>();
+
+// Create (or reuse) a symmetric window of the given type and length
+export function createWindow(type: WindowType, size: number): Float32Array {
+  const key = `${type}:${size}`;
+  const cached = windowCache.get(key);
+  if (cached) return cached;
+
+  const window = new Float32Array(size);
+  const denom = size > 1 ? size - 1 : 1;
+  for (let n = 0; n < size; n++) {
+    const phase = (2 * Math.PI * n) / denom;
+    switch (type) {
+      case 'hann':
+        window[n] = 0.5 - 0.5 * Math.cos(phase);
+        break;
+      case 'hamming':
+        window[n] = 0.54 - 0.46 * Math.cos(phase);
+        break;
+      case 'blackman':
+        window[n] = 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase);
+        break;
+      default:
+        window[n] = 1;
+    }
+  }
+
+  windowCache.set(key, window);
+  return window;
+}
+
+// Amplitude spectrum (N/2 + 1 bins) of a single windowed frame
+export function magnitudeSpectrum(
+  frame: ArrayLike<number>,
+  window: WindowType = 'hann'
+): Float32Array {
+  const fftSize = nextPowerOfTwo(Math.max(4, frame.length));
+  const result = stft(frame, { fftSize, hopSize: fftSize, window });
+  return result.data.subarray(0, result.bins);
+}
+
+// Convert a linear amplitude to decibels, floored to avoid -Infinity
+export function magnitudeToDb(magnitude: number, floorDb: number = -120): number {
+  return magnitude > 0 ? Math.max(floorDb, 20 * Math.log10(magnitude)) : floorDb;
+}
+
+// Centre frequency (Hz) of column `bin` in an STFT result
+export function binFrequency(result: STFTResult, bin: number): number {
+  return (result.firstBin + bin) * result.binWidth;
+}
+
+// Centre time (seconds) of `frame` in an STFT result
+export function frameTime(result: STFTResult, frame: number): number {
+  return (frame * result.hopSize + result.fftSize / 2) / result.sampleRate;
+}
+
+interface STFTPlan {
+  fft: RealFFT;
+  window: Float32Array;
+  scale: number;
+  result: STFTResult;
+  frameBuffer: Float64Array;
+  specRe: Float64Array;
+  specIm: Float64Array;
+}
+
+function createPlan(length: number, options: STFTOptions): STFTPlan {
+  const fftSize = options.fftSize ?? DEFAULT_FFT_SIZE;
+  const hopSize = options.hopSize ?? fftSize / 2;
+  const sampleRate = options.sampleRate ?? DEFAULT_SAMPLE_RATE;
+
+  if (!isPowerOfTwo(fftSize)) {
+    throw new Error(`FFT size must be a power of two, got ${fftSize}`);
+  }
+  if (hopSize <= 0) {
+    throw new Error('Hop size must be positive');
+  }
+
+  const binWidth = sampleRate / fftSize;
+  const maxBin = fftSize / 2;
+  const firstBin = Math.min(maxBin, Math.max(0, Math.ceil((options.minFrequency ?? 0) / binWidth)));
+  const lastBin = Math.min(
+    maxBin,
+    Math.floor((options.maxFrequency ?? sampleRate / 2) / binWidth)
+  );
+  const bins = Math.max(0, lastBin - firstBin + 1);
+
+  // Short signals still produce one zero-padded frame
+  const frames = length <= fftSize ? 1 : Math.floor((length - fftSize) / hopSize) + 1;
+
+  const window = createWindow(options.window ?? 'hann', fftSize);
+  let windowSum = 0;
+  for (let i = 0; i < fftSize; i++) windowSum += window[i];
+
+  return {
+    fft: getFFT(fftSize),
+    window,
+    // Scale so a full-scale sinusoid reads as amplitude 1 regardless of window
+    scale: windowSum > 0 ? 2 / windowSum : 0,
+    result: {
+      data: new Float32Array(frames * bins),
+      frames,
+      bins,
+      fftSize,
+      hopSize,
+      sampleRate,
+      firstBin,
+      binWidth,
+    },
+    frameBuffer: new Float64Array(fftSize),
+    specRe: new Float64Array(maxBin + 1),
+    specIm: new Float64Array(maxBin + 1),
+  };
+}
+
+function processFrames(
+  samples: ArrayLike<number>,
+  plan: STFTPlan,
+  fromFrame: number,
+  toFrame: number
+): void {
+  const { fft, window, scale, frameBuffer, specRe, specIm, result } = plan;
+  const { fftSize, hopSize, bins, firstBin, data } = result;
+
+  for (let frame = fromFrame; frame < toFrame; frame++) {
+    const start = frame * hopSize;
+    for (let i = 0; i < fftSize; i++) {
+      const index = start + i;
+      frameBuffer[i] = index < samples.length ? samples[index] * window[i] : 0;
+    }
+
+    fft.forward(frameBuffer, specRe, specIm);
+
+    const rowOffset = frame * bins;
+    for (let bin = 0; bin < bins; bin++) {
+      const k = firstBin + bin;
+      data[rowOffset + bin] = Math.sqrt(specRe[k] * specRe[k] + specIm[k] * specIm[k]) * scale;
+    }
+  }
+}
+
+// Compute the STFT synchronously
+export function stft(samples: ArrayLike<number>, options: STFTOptions = {}): STFTResult {
+  const plan = createPlan(samples.length, options);
+  processFrames(samples, plan, 0, plan.result.frames);
+  return plan.result;
+}
+
+/**
+ * Compute the STFT in slices, yielding to the event loop between them so long
+ * recordings don't block touch handling and rendering.
+ */
+export async function stftAsync(
+  samples: ArrayLike<number>,
+  options: STFTOptions = {},
+  yieldEvery: number = DEFAULT_YIELD_EVERY
+): Promise<STFTResult> {
+  const plan = createPlan(samples.length, options);
+  const { frames } = plan.result;
+
+  for (let frame = 0; frame < frames; frame += yieldEvery) {
+    processFrames(samples, plan, frame, Math.min(frames, frame + yieldEvery));
+    if (frame + yieldEvery < frames) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+
+  return plan.result;
+}
@@ -0,0 +1,240 @@
+/**
+ * Filters
+ * Pre-processing chain for stethoscope audio: DC removal, mains hum notches,
+ * a lung-sound band-pass and optional adaptive spectral noise reduction
+ */
+
+import { DecodedAudio } from './wav';
+import { getFFT, createWindow, nextPowerOfTwo } from './fft';
+
+export type FilterName = 'dcRemoval' | 'notch' | 'bandPass' | 'noiseReduction' | 'heartSuppression';
+
+export interface FilterChainOptions {
+  dcRemoval?: boolean;
+  notch?: boolean;
+  bandPass?: boolean;
+  noiseReduction?: boolean;
+  // Not run by applyFilterChain: finding S1/S2 needs the unfiltered audio, so the
+  // analysis applies it (see utils/heartSounds.ts)
+  heartSuppression?: boolean;
+  mainsFrequency?: 50 | 60 | 'auto';
+  bandPassLow?: number;       // Hz
+  bandPassHigh?: number;      // Hz
+}
+
+// A filter that was applied, with the parameters it ran with
+export interface AppliedFilter {
+  name: FilterName;
+  params: Record<string, number>;
+}
+
+export interface BiquadCoefficients {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+export const DEFAULT_FILTER_CHAIN: Required<FilterChainOptions> = {
+  dcRemoval: true,
+  notch: true,
+  bandPass: true,
+  noiseReduction: false,
+  heartSuppression: true,
+  mainsFrequency: 'auto',
+  bandPassLow: 100,
+  bandPassHigh: 2000,
+};
+
+const DC_CUTOFF = 20;
+const BUTTERWORTH_Q = Math.SQRT1_2;
+const NOTCH_Q = 30;
+const NOTCH_HARMONICS = 3;
+// Seconds of audio used to decide between 50 and 60 Hz mains
+const MAINS_PROBE_SECONDS = 5;
+
+// Noise reduction: STFT window, noise tracker rates and gain limits
+const NR_WINDOW_SECONDS = 0.032;
+const NR_SMOOTHING = 0.7;
+// How fast the noise estimate may climb when the signal gets louder
+const NR_NOISE_RISE_DB_PER_SECOND = 3;
+const NR_OVER_SUBTRACTION = 2;
+const NR_MIN_GAIN = 0.1;
+
+/**
+ * Biquad coefficients from the RBJ audio EQ cookbook, normalized so a0 = 1
+ */
+export function designBiquad(
+  type: 'lowpass' | 'highpass' | 'notch',
+  frequency: number,
+  q: number,
+  sampleRate: number
+): BiquadCoefficients {
+  const w0 = (2 * Math.PI * frequency) / sampleRate;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * q);
+  let b0: number;
+  let b1: number;
+  let b2: number;
+
+  switch (type) {
+    case 'lowpass':
+      b0 = (1 - cos) / 2;
+      b1 = 1 - cos;
+      b2 = (1 - cos) / 2;
+      break;
+    case 'highpass':
+      b0 = (1 + cos) / 2;
+      b1 = -(1 + cos);
+      b2 = (1 + cos) / 2;
+      break;
+    case 'notch':
+      b0 = 1;
+      b1 = -2 * cos;
+      b2 = 1;
+      break;
+  }
+
+  const a0 = 1 + alpha;
+  return {
+    b0: b0 / a0,
+    b1: b1 / a0,
+    b2: b2 / a0,
+    a1: (-2 * cos) / a0,
+    a2: (1 - alpha) / a0,
+  };
+}
+
+// Run a biquad over the samples in place (transposed direct form II)
+export function applyBiquad(samples: Float32Array, c: BiquadCoefficients): Float32Array {
+  let z1 = 0;
+  let z2 = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const x = samples[i];
+    const y = c.b0 * x + z1;
+    z1 = c.b1 * x - c.a1 * y + z2;
+    z2 = c.b2 * x - c.a2 * y;
+    samples[i] = y;
+  }
+  return samples;
+}
+
+// Signal power at one frequency (Goertzel)
+function toneEnergy(samples: Float32Array, frequency: number, sampleRate: number): number {
+  const coefficient = 2 * Math.cos((2 * Math.PI * frequency) / sampleRate);
+  let s1 = 0;
+  let s2 = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const s0 = samples[i] + coefficient * s1 - s2;
+    s2 = s1;
+    s1 = s0;
+  }
+  return s1 * s1 + s2 * s2 - coefficient * s1 * s2;
+}
+
+// Pick the mains frequency whose hum is stronger in the recording
+export function detectMainsFrequency(samples: Float32Array, sampleRate: number): 50 | 60 {
+  const probe = samples.subarray(0, Math.min(samples.length, MAINS_PROBE_SECONDS * sampleRate));
+  return toneEnergy(probe, 60, sampleRate) > toneEnergy(probe, 50, sampleRate) ? 60 : 50;
+}
+
+/**
+ * Adaptive spectral subtraction. The noise spectrum is tracked per bin,
+ * falling immediately to quieter frames and rising slowly, so it follows
+ * changing background noise without absorbing breath sounds.
+ */
+export function reduceNoise(samples: Float32Array, sampleRate: number): Float32Array {
+  const fftSize = nextPowerOfTwo(Math.round(NR_WINDOW_SECONDS * sampleRate));
+  const hopSize = fftSize >> 1;
+  const bins = (fftSize >> 1) + 1;
+  const fft = getFFT(fftSize);
+  // A periodic Hann window sums to one at 50% overlap, so frames can simply be added back
+  const window = createWindow('hann', fftSize + 1);
+
+  const output = new Float32Array(samples.length);
+  const frame = new Float64Array(fftSize);
+  const re = new Float64Array(bins);
+  const im = new Float64Array(bins);
+  const restored = new Float64Array(fftSize);
+  const smoothed = new Float64Array(bins);
+  const noise = new Float64Array(bins).fill(Infinity);
+  const rise = Math.pow(10, (NR_NOISE_RISE_DB_PER_SECOND * hopSize) / sampleRate / 10);
+
+  for (let start = -hopSize; start < samples.length; start += hopSize) {
+    for (let i = 0; i < fftSize; i++) {
+      const index = start + i;
+      frame[i] = index >= 0 && index < samples.length ? samples[index] * window[i] : 0;
+    }
+    fft.forward(frame, re, im);
+
+    for (let k = 0; k < bins; k++) {
+      const power = re[k] * re[k] + im[k] * im[k];
+      smoothed[k] = noise[k] === Infinity ? power : NR_SMOOTHING * smoothed[k] + (1 - NR_SMOOTHING) * power;
+      noise[k] = Math.min(smoothed[k], noise[k] === Infinity ? smoothed[k] : noise[k] * rise);
+
+      const gain = power > 0
+        ? Math.max(NR_MIN_GAIN, Math.sqrt(Math.max(0, 1 - (NR_OVER_SUBTRACTION * noise[k]) / power)))
+        : NR_MIN_GAIN;
+      re[k] *= gain;
+      im[k] *= gain;
+    }
+
+    fft.inverse(re, im, restored);
+    for (let i = 0; i < fftSize; i++) {
+      const index = start + i;
+      if (index >= 0 && index < output.length) output[index] += restored[i];
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Run the enabled filters over a copy of the audio, in the order DC removal,
+ * notch, band-pass, noise reduction. Returns the filtered audio and the list
+ * of filters that were actually applied.
+ */
+export function applyFilterChain(
+  audio: DecodedAudio,
+  options: FilterChainOptions = {}
+): { audio: DecodedAudio; applied: AppliedFilter[] } {
+  const config = { ...DEFAULT_FILTER_CHAIN, ...options };
+  const { sampleRate } = audio;
+  const nyquist = sampleRate / 2;
+  let samples: Float32Array = Float32Array.from(audio.samples);
+  const applied: AppliedFilter[] = [];
+
+  if (config.dcRemoval) {
+    applyBiquad(samples, designBiquad('highpass', DC_CUTOFF, BUTTERWORTH_Q, sampleRate));
+    applied.push({ name: 'dcRemoval', params: { cutoff: DC_CUTOFF } });
+  }
+
+  if (config.notch) {
+    const mains = config.mainsFrequency === 'auto'
+      ? detectMainsFrequency(samples, sampleRate)
+      : config.mainsFrequency;
+    let harmonics = 0;
+    for (let harmonic = 1; harmonic <= NOTCH_HARMONICS && mains * harmonic < nyquist; harmonic++) {
+      applyBiquad(samples, designBiquad('notch', mains * harmonic, NOTCH_Q, sampleRate));
+      harmonics = harmonic;
+    }
+    applied.push({ name: 'notch', params: { frequency: mains, harmonics, q: NOTCH_Q } });
+  }
+
+  if (config.bandPass) {
+    const low = config.bandPassLow;
+    const high = Math.min(config.bandPassHigh, nyquist * 0.95);
+    // Butterworth high-pass and low-pass sections in cascade
+    applyBiquad(samples, designBiquad('highpass', low, BUTTERWORTH_Q, sampleRate));
+    applyBiquad(samples, designBiquad('lowpass', high, BUTTERWORTH_Q, sampleRate));
+    applied.push({ name: 'bandPass', params: { low, high } });
+  }
+
+  if (config.noiseReduction) {
+    samples = reduceNoise(samples, sampleRate);
+    applied.push({ name: 'noiseReduction', params: { overSubtraction: NR_OVER_SUBTRACTION } });
+  }
+
+  return { audio: { ...audio, samples }, applied };
+}
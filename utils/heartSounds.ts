@@ -0,0 +1,189 @@
+/**
+ * Heart Sounds
+ * Locates S1/S2 heart sounds in chest recordings, estimates the heart rate
+ * and removes the heart sounds so lung analysis sees cleaner audio
+ */
+
+import { DecodedAudio } from './wav';
+import { Envelope, autocorrelation, envelopeTime, movingAverage, percentile } from './envelope';
+import { findEnvelopePeaks } from './respiratoryRate';
+import { applyBiquad, designBiquad } from './filters';
+
+export interface HeartSound {
+  type: 'S1' | 'S2';
+  start: number;    // Seconds
+  end: number;      // Seconds
+}
+
+export interface HeartSoundAnalysis {
+  heartRate: number;      // Beats per minute
+  confidence: number;     // 0-1
+  sounds: HeartSound[];
+}
+
+// S1/S2 energy is concentrated here; the removal band is wider to catch their tails
+const DETECTION_BAND = { low: 25, high: 150 };
+const REMOVAL_BAND = { low: 20, high: 300 };
+
+const ENVELOPE_WINDOW_SECONDS = 0.02;
+const ENVELOPE_HOP_SECONDS = 0.005;
+const MIN_HEART_RATE = 40;
+const MAX_HEART_RATE = 180;
+const MIN_CORRELATION = 0.25;
+// Heartbeats whose autocorrelation peak stands out less than this are not reported
+const MIN_CONFIDENCE = 0.3;
+// Shorter lags within this fraction of the best peak are preferred (avoids period doubling)
+const FUNDAMENTAL_RATIO = 0.9;
+// Heart sounds extend from their envelope peak until it falls to this fraction
+const EDGE_LEVEL = 0.25;
+const MAX_HALF_WIDTH_SECONDS = 0.08;
+// Crossfade at the edges of each removed segment
+const RAMP_SECONDS = 0.01;
+
+// Zero-phase band-pass (forward-backward Butterworth sections)
+function bandPassZeroPhase(
+  samples: Float32Array,
+  sampleRate: number,
+  band: { low: number; high: number }
+): Float32Array {
+  const sections = [
+    designBiquad('highpass', band.low, Math.SQRT1_2, sampleRate),
+    designBiquad('lowpass', Math.min(band.high, sampleRate * 0.45), Math.SQRT1_2, sampleRate),
+  ];
+  const output = Float32Array.from(samples);
+  for (const section of sections) applyBiquad(output, section);
+  output.reverse();
+  for (const section of sections) applyBiquad(output, section);
+  return output.reverse();
+}
+
+// Shannon energy envelope, which favours medium-intensity heart sounds over noise spikes
+function shannonEnvelope(signal: Float32Array, sampleRate: number): Envelope {
+  let peak = 0;
+  for (let i = 0; i < signal.length; i++) peak = Math.max(peak, Math.abs(signal[i]));
+
+  const window = Math.max(1, Math.round(ENVELOPE_WINDOW_SECONDS * sampleRate));
+  const hop = Math.max(1, Math.round(ENVELOPE_HOP_SECONDS * sampleRate));
+  const frames = Math.max(0, Math.floor((signal.length - window) / hop) + 1);
+  const values = new Float32Array(frames);
+
+  if (peak > 0) {
+    for (let frame = 0; frame < frames; frame++) {
+      let energy = 0;
+      for (let i = frame * hop; i < frame * hop + window; i++) {
+        const power = (signal[i] / peak) * (signal[i] / peak);
+        if (power > 0) energy -= power * Math.log(power);
+      }
+      values[frame] = energy / window;
+    }
+  }
+
+  return {
+    values: movingAverage(values, 3),
+    rate: sampleRate / hop,
+    offset: window / 2 / sampleRate,
+  };
+}
+
+// Detect S1/S2 heart sounds; returns null when no regular heartbeat is found
+export function detectHeartSounds(audio: DecodedAudio): HeartSoundAnalysis | null {
+  const { samples, sampleRate } = audio;
+  const envelope = shannonEnvelope(bandPassZeroPhase(samples, sampleRate, DETECTION_BAND), sampleRate);
+  const { values, rate } = envelope;
+
+  const minLag = Math.floor((rate * 60) / MAX_HEART_RATE);
+  const maxLag = Math.min(Math.ceil((rate * 60) / MIN_HEART_RATE), Math.floor(values.length / 2));
+  if (maxLag <= minLag + 1) {
+    return null;
+  }
+
+  // The cardiac cycle repeats as a local maximum of the autocorrelation; the
+  // range boundaries only look like peaks because the search stops there
+  const correlation = autocorrelation(values, minLag, maxLag);
+  const candidates: number[] = [];
+  for (let l = minLag + 1; l < maxLag; l++) {
+    if (correlation[l] > correlation[l - 1] && correlation[l] >= correlation[l + 1]) {
+      candidates.push(l);
+    }
+  }
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const best = Math.max(...candidates.map(l => correlation[l]));
+  if (best < MIN_CORRELATION) {
+    return null;
+  }
+  const lag = candidates.find(l => correlation[l] >= best * FUNDAMENTAL_RATIO) as number;
+
+  // Slow breath modulation keeps the correlation high at every short lag, so
+  // only the rise above the trough before the peak counts towards a heartbeat
+  let trough = correlation[lag];
+  for (let l = minLag; l < lag; l++) trough = Math.min(trough, correlation[l]);
+  const confidence = correlation[lag] - Math.max(0, trough);
+  if (confidence < MIN_CONFIDENCE) {
+    return null;
+  }
+
+  // Parabolic interpolation, kept inside the plausible heart rate range
+  const y0 = correlation[lag - 1];
+  const y2 = correlation[lag + 1];
+  const curvature = y0 - 2 * correlation[lag] + y2;
+  const refinedLag = Math.min(
+    maxLag,
+    Math.max(minLag, curvature !== 0 ? lag + (0.5 * (y0 - y2)) / curvature : lag)
+  );
+  const period = refinedLag / rate;
+
+  // One peak per heart sound; S1 and S2 are at least a quarter cycle apart
+  const floor = percentile(values, 0.2);
+  const threshold = floor + 0.3 * (percentile(values, 0.98) - floor);
+  const peaks = findEnvelopePeaks(values, Math.round(refinedLag * 0.25), threshold);
+
+  const maxHalfWidth = Math.round(MAX_HALF_WIDTH_SECONDS * rate);
+  const sounds: HeartSound[] = peaks.map((peak, index) => {
+    const edge = floor + EDGE_LEVEL * (values[peak] - floor);
+    let start = peak;
+    while (start > 0 && peak - start < maxHalfWidth && values[start - 1] > edge) start--;
+    let end = peak;
+    while (end < values.length - 1 && end - peak < maxHalfWidth && values[end + 1] > edge) end++;
+
+    // Systole (S1 to S2) is shorter than diastole (S2 to the next S1)
+    const time = envelopeTime(envelope, peak);
+    const previous = index > 0 ? time - envelopeTime(envelope, peaks[index - 1]) : null;
+    const next = index < peaks.length - 1 ? envelopeTime(envelope, peaks[index + 1]) - time : null;
+    const isS1 = next !== null && previous !== null ? next < previous : (next ?? period) < period / 2;
+
+    return {
+      type: isS1 ? 'S1' : 'S2',
+      start: envelopeTime(envelope, start),
+      end: envelopeTime(envelope, end + 1),
+    };
+  });
+
+  return {
+    heartRate: Math.round(60 / period),
+    confidence,
+    sounds,
+  };
+}
+
+// Remove the low-frequency heart sound component inside each detected S1/S2
+export function suppressHeartSounds(audio: DecodedAudio, analysis: HeartSoundAnalysis): DecodedAudio {
+  const { samples, sampleRate } = audio;
+  const heart = bandPassZeroPhase(samples, sampleRate, REMOVAL_BAND);
+  const output = Float32Array.from(samples);
+  const ramp = Math.max(1, Math.round(RAMP_SECONDS * sampleRate));
+
+  for (const sound of analysis.sounds) {
+    const start = Math.max(0, Math.floor(sound.start * sampleRate) - ramp);
+    const end = Math.min(samples.length, Math.ceil(sound.end * sampleRate) + ramp);
+    for (let i = start; i < end; i++) {
+      const fromEdge = Math.min(i - start, end - 1 - i);
+      const weight = fromEdge >= ramp ? 1 : 0.5 - 0.5 * Math.cos((Math.PI * fromEdge) / ramp);
+      output[i] = samples[i] - weight * heart[i];
+    }
+  }
+
+  return { ...audio, samples: output };
+}
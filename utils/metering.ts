@@ -0,0 +1,77 @@
+/**
+ * Metering
+ * Turns the dBFS metering values reported while recording into a smoothed
+ * input level with peak-hold and clip detection for the live meter
+ */
+
+export interface MeterState {
+  level: number;        // Smoothed linear amplitude, 0-1
+  peak: number;         // Held peak linear amplitude, 0-1
+  peakTime: number;     // Timestamp (ms) the peak was last raised
+  clipTime: number;     // Timestamp (ms) of the last clipped reading, or -Infinity
+  updatedAt: number;    // Timestamp (ms) of the last reading
+}
+
+// Lowest level shown on the meter; quieter input draws as empty
+export const METER_FLOOR_DB = -60;
+// Readings at or above this count as clipping
+export const CLIP_THRESHOLD_DB = -0.5;
+
+// Fraction of the gap closed per reading while rising / falling
+const ATTACK = 0.6;
+const RELEASE = 0.35;
+const PEAK_HOLD_MS = 1500;
+// Fraction of the held peak kept per second once the hold time has passed
+const PEAK_RETAIN_PER_SECOND = 0.25;
+const CLIP_HOLD_MS = 2000;
+
+export const INITIAL_METER_STATE: MeterState = {
+  level: 0,
+  peak: 0,
+  peakTime: 0,
+  clipTime: -Infinity,
+  updatedAt: 0,
+};
+
+// Convert a dBFS reading to linear amplitude (0 dBFS => 1)
+export function dbfsToAmplitude(dbfs: number): number {
+  if (!Number.isFinite(dbfs)) return 0;
+  return Math.min(1, Math.pow(10, dbfs / 20));
+}
+
+// Position (0-1) of a linear amplitude on the meter's dB scale
+export function amplitudeToMeterPosition(amplitude: number): number {
+  if (amplitude <= 0) return 0;
+  const db = 20 * Math.log10(amplitude);
+  return Math.max(0, Math.min(1, (db - METER_FLOOR_DB) / -METER_FLOOR_DB));
+}
+
+// Fold a new metering reading into the meter state
+export function updateMeter(state: MeterState, dbfs: number, now: number): MeterState {
+  const amplitude = dbfsToAmplitude(dbfs);
+  const coefficient = amplitude > state.level ? ATTACK : RELEASE;
+  const level = state.level + coefficient * (amplitude - state.level);
+
+  let peak = state.peak;
+  let peakTime = state.peakTime;
+  if (level >= peak) {
+    peak = level;
+    peakTime = now;
+  } else if (now - peakTime > PEAK_HOLD_MS) {
+    const elapsed = (now - Math.max(state.updatedAt, peakTime + PEAK_HOLD_MS)) / 1000;
+    peak = Math.max(level, peak * Math.pow(PEAK_RETAIN_PER_SECOND, elapsed));
+  }
+
+  return {
+    level,
+    peak,
+    peakTime,
+    clipTime: dbfs >= CLIP_THRESHOLD_DB ? now : state.clipTime,
+    updatedAt: now,
+  };
+}
+
+// Whether the clip indicator should still be lit
+export function isClipping(state: MeterState, now: number): boolean {
+  return now - state.clipTime <= CLIP_HOLD_MS;
+}
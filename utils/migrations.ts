@@ -0,0 +1,322 @@
+/**
+ * Schema Migrations
+ * Upgrades persisted AsyncStorage data step by step to the current schema
+ * version, keeping a backup of the pre-migration data for rollback
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { Recording } from '@/types/recording';
+import {
+  isRecordKey,
+  readAllRecords,
+  replaceAllRecords,
+  invalidateIndex,
+} from './recordStore';
+import { encryptString, decryptString, needsReencryption } from './encryption';
+
+// Keys are pinned here rather than shared with utils/storage.ts: each migration
+// works on the layout as it was when that version shipped. Since version 3
+// recordings are kept in utils/recordStore.ts rather than one JSON array.
+const RECORDINGS_KEY = 'stethopulse_recordings';
+const SESSIONS_KEY = 'stethopulse_sessions';
+const SETTINGS_KEY = 'settings';
+const LEGACY_RECORDINGS_KEY = 'recordings';
+const VERSION_KEY = 'stethopulse_schema_version';
+const BACKUP_KEY = 'stethopulse_schema_backup';
+const RECORDINGS_DIRECTORY = `${FileSystem.documentDirectory}recordings/`;
+const AUDIO_EXTENSIONS = ['.wav', '.m4a', '.mp3'];
+
+const MIGRATED_KEYS = [RECORDINGS_KEY, SESSIONS_KEY, SETTINGS_KEY, LEGACY_RECORDINGS_KEY];
+
+type StoredObject = Record<string, any>;
+
+// Everything a migration may read or rewrite
+export interface PersistedData {
+  recordings: StoredObject[];
+  sessions: StoredObject[];
+  settings: StoredObject | null;
+  legacyRecordings: StoredObject[] | null;    // Old AppContext `recordings` key
+}
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (data: PersistedData) => Promise<PersistedData>;
+}
+
+export interface MigrationBackup {
+  version: number;
+  createdAt: string;
+  items: Record<string, string | null>;       // Raw values of the migrated keys
+}
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  applied: number[];
+  error?: string;
+  rolledBack: boolean;
+}
+
+// Audio files in the recordings directory that no metadata refers to. The old
+// audio service listed these by filename, using the filename as the id.
+async function findUntrackedFiles(known: Set<string>): Promise<StoredObject[]> {
+  const dirInfo = await FileSystem.getInfoAsync(RECORDINGS_DIRECTORY);
+  if (!dirInfo.exists) return [];
+
+  const files = await FileSystem.readDirectoryAsync(RECORDINGS_DIRECTORY);
+  const untracked: StoredObject[] = [];
+  for (const fileName of files) {
+    const uri = `${RECORDINGS_DIRECTORY}${fileName}`;
+    if (known.has(uri) || !AUDIO_EXTENSIONS.some(extension => fileName.endsWith(extension))) {
+      continue;
+    }
+
+    const fileInfo = await FileSystem.getInfoAsync(uri, { size: true });
+    // Filenames look like recording-<timestamp>.wav
+    const timestamp = Number(fileName.split('-')[1]?.split('.')[0]);
+    const modified = fileInfo.exists ? fileInfo.modificationTime * 1000 : Date.now();
+    untracked.push({
+      id: fileName,
+      uri,
+      createdAt: new Date(timestamp || modified).toISOString(),
+      fileSize: fileInfo.exists ? fileInfo.size : 0,
+    });
+  }
+  return untracked;
+}
+
+// Rename and rescale old analysis result fields
+function normalizeResult(result: StoredObject): StoredObject {
+  const { probability, ...rest } = result;
+  return {
+    ...rest,
+    condition: rest.condition ?? 'Unknown',
+    confidence: rest.confidence ?? (typeof probability === 'number' ? Math.round(probability * 100) : 0),
+  };
+}
+
+function normalizeRecording(recording: StoredObject): StoredObject {
+  const { date, analysis, source, spectrogramData, ...rest } = recording;
+  const result = rest.analysisResult ?? analysis;
+  return {
+    ...rest,
+    duration: rest.duration ?? 0,
+    // Old stethoscope recordings were all chest recordings
+    type: rest.type ?? 'breath',
+    createdAt: rest.createdAt ?? date ?? new Date().toISOString(),
+    fileSize: rest.fileSize ?? 0,
+    analyzed: rest.analyzed ?? result !== undefined,
+    ...(result ? { analysisResult: normalizeResult(result) } : {}),
+  };
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Merge old AppContext recordings and untracked audio files',
+    migrate: async data => {
+      const recordings = [...data.recordings];
+      const uris = new Set(recordings.map(recording => recording.uri));
+      const ids = new Set(recordings.map(recording => recording.id));
+
+      for (const entry of data.legacyRecordings ?? []) {
+        if (!entry?.id || !entry.uri) continue;
+        const existing = recordings.find(recording =>
+          recording.id === entry.id || recording.uri === entry.uri
+        );
+        if (!existing) {
+          recordings.push(entry);
+          uris.add(entry.uri);
+          ids.add(entry.id);
+        } else if (!existing.analysisResult && (entry.analysisResult || entry.analysis)) {
+          // Existing entries win; only fill in a missing analysis
+          existing.analysisResult = entry.analysisResult ?? entry.analysis;
+        }
+      }
+      for (const recording of await findUntrackedFiles(uris)) {
+        if (!ids.has(recording.id)) recordings.push(recording);
+      }
+
+      return { ...data, recordings, legacyRecordings: null };
+    },
+  },
+  {
+    version: 2,
+    description: 'Normalize recording, analysis and settings fields',
+    migrate: async data => ({
+      ...data,
+      recordings: data.recordings.map(normalizeRecording),
+      sessions: data.sessions.map(session => ({ ...session, recordingIds: session.recordingIds ?? [] })),
+      settings: data.settings
+        ? { ...data.settings, notifications: data.settings.notifications !== false }
+        : null,
+    }),
+  },
+  {
+    version: 3,
+    description: 'Store recordings individually with an index',
+    // Only the layout changes; the runner writes recordings to the record store
+    migrate: async data => data,
+  },
+];
+
+// First version whose recordings live in the record store
+const RECORD_STORE_VERSION = 3;
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export async function getSchemaVersion(): Promise<number> {
+  const stored = await AsyncStorage.getItem(VERSION_KEY);
+  return stored ? Number(stored) : 0;
+}
+
+// Parse a stored JSON list, which may be encrypted
+async function parseList(json: string | null): Promise<StoredObject[]> {
+  const parsed = json ? JSON.parse(await decryptString(json)) : [];
+  return Array.isArray(parsed) ? parsed : [];
+}
+
+async function writeItems(items: Record<string, string | null>): Promise<void> {
+  for (const [key, value] of Object.entries(items)) {
+    if (value === null) {
+      await AsyncStorage.removeItem(key);
+    } else {
+      await AsyncStorage.setItem(key, value);
+    }
+  }
+}
+
+// The backup taken before the last migration run, if any
+export async function getMigrationBackup(): Promise<MigrationBackup | null> {
+  try {
+    const backupJson = await AsyncStorage.getItem(BACKUP_KEY);
+    return backupJson ? JSON.parse(backupJson) : null;
+  } catch (error) {
+    console.error('Error reading migration backup:', error);
+    return null;
+  }
+}
+
+// Encrypt the backed-up health data under the current key, like the live data.
+// Settings are restored as they were and stay plain.
+export async function reencryptMigrationBackup(): Promise<void> {
+  const backup = await getMigrationBackup();
+  if (!backup) return;
+
+  const items = { ...backup.items };
+  for (const [key, value] of Object.entries(items)) {
+    if (value !== null && key !== SETTINGS_KEY && await needsReencryption(value)) {
+      items[key] = await encryptString(await decryptString(value));
+    }
+  }
+  await AsyncStorage.setItem(BACKUP_KEY, JSON.stringify({ ...backup, items }));
+}
+
+// Raw values of every key a migration may touch
+async function snapshotItems(): Promise<Record<string, string | null>> {
+  const recordKeys = (await AsyncStorage.getAllKeys()).filter(isRecordKey);
+  const pairs = await AsyncStorage.multiGet([...MIGRATED_KEYS, ...recordKeys]);
+  return Object.fromEntries(pairs);
+}
+
+// Restore the data and schema version from before the last migration run
+export async function rollbackMigration(): Promise<boolean> {
+  try {
+    const backup = await getMigrationBackup();
+    if (!backup) return false;
+
+    // Record keys written by the migration are not in the backup
+    const added = (await AsyncStorage.getAllKeys())
+      .filter(key => isRecordKey(key) && !(key in backup.items));
+    await AsyncStorage.multiRemove(added);
+    await writeItems(backup.items);
+    await AsyncStorage.setItem(VERSION_KEY, String(backup.version));
+    invalidateIndex();
+    return true;
+  } catch (error) {
+    console.error('Error rolling back migration:', error);
+    return false;
+  }
+}
+
+async function migrate(): Promise<MigrationReport> {
+  const fromVersion = await getSchemaVersion();
+  const report: MigrationReport = { fromVersion, toVersion: fromVersion, applied: [], rolledBack: false };
+
+  if (fromVersion > SCHEMA_VERSION) {
+    // Written by a newer build; leave it alone rather than guess
+    report.error = `Stored data has schema version ${fromVersion}, newer than ${SCHEMA_VERSION}`;
+    return report;
+  }
+  if (fromVersion === SCHEMA_VERSION) {
+    return report;
+  }
+
+  const items = await snapshotItems();
+  await AsyncStorage.setItem(BACKUP_KEY, JSON.stringify({
+    version: fromVersion,
+    createdAt: new Date().toISOString(),
+    items,
+  } satisfies MigrationBackup));
+
+  try {
+    let data: PersistedData = {
+      recordings: fromVersion >= RECORD_STORE_VERSION
+        ? await readAllRecords()
+        : await parseList(items[RECORDINGS_KEY]),
+      sessions: await parseList(items[SESSIONS_KEY]),
+      settings: items[SETTINGS_KEY] ? JSON.parse(items[SETTINGS_KEY]) : null,
+      legacyRecordings: items[LEGACY_RECORDINGS_KEY] ? await parseList(items[LEGACY_RECORDINGS_KEY]) : null,
+    };
+
+    for (const migration of MIGRATIONS.filter(m => m.version > fromVersion)) {
+      try {
+        data = await migration.migrate(data);
+      } catch (error) {
+        throw new Error(`Migration ${migration.version} (${migration.description}) failed: ${error}`);
+      }
+      report.applied.push(migration.version);
+    }
+
+    await replaceAllRecords(data.recordings as Recording[]);
+    await writeItems({
+      [RECORDINGS_KEY]: null,
+      [SESSIONS_KEY]: await encryptString(JSON.stringify(data.sessions)),
+      [SETTINGS_KEY]: data.settings ? JSON.stringify(data.settings) : null,
+      [LEGACY_RECORDINGS_KEY]: data.legacyRecordings ? JSON.stringify(data.legacyRecordings) : null,
+    });
+    await AsyncStorage.setItem(VERSION_KEY, String(SCHEMA_VERSION));
+    report.toVersion = SCHEMA_VERSION;
+  } catch (error) {
+    console.error('Error migrating stored data:', error);
+    report.error = error instanceof Error ? error.message : String(error);
+    report.applied = [];
+    report.rolledBack = await rollbackMigration();
+  }
+
+  return report;
+}
+
+let pendingMigration: Promise<MigrationReport> | null = null;
+
+/**
+ * Bring stored data up to SCHEMA_VERSION. Runs once per launch; later calls
+ * share the same result, so readers can await it before touching storage.
+ */
+export function runMigrations(): Promise<MigrationReport> {
+  if (!pendingMigration) {
+    pendingMigration = migrate().catch(error => {
+      console.error('Error running migrations:', error);
+      return {
+        fromVersion: 0,
+        toVersion: 0,
+        applied: [],
+        error: error instanceof Error ? error.message : String(error),
+        rolledBack: false,
+      };
+    });
+  }
+  return pendingMigration;
+}
@@ -0,0 +1,168 @@
+/**
+ * Storage Reconciliation
+ * Finds files on disk that no recording refers to and recordings whose audio
+ * file is gone, and repairs them on request
+ */
+
+import * as FileSystem from 'expo-file-system';
+import { Recording } from '@/types/recording';
+import {
+  getRecordings,
+  deleteRecording,
+  saveRecordingMetadata,
+  spectrogramPath,
+} from './storage';
+import { readAudioDuration } from './audio';
+import { encryptFile } from './encryption';
+
+const DIRECTORIES = {
+  recordings: `${FileSystem.documentDirectory}recordings/`,
+  spectrograms: `${FileSystem.documentDirectory}spectrograms/`,
+  exports: `${FileSystem.cacheDirectory}exports/`,    // Where export.ts writes archives
+};
+const AUDIO_EXTENSIONS = ['.wav', '.m4a', '.mp3'];
+
+export interface StoredFile {
+  uri: string;
+  name: string;
+  size: number;           // Bytes
+  modifiedAt: string;
+}
+
+export interface ReconciliationReport {
+  scannedAt: string;
+  orphanedAudio: StoredFile[];          // Audio in recordings/ with no metadata
+  orphanedSpectrograms: StoredFile[];   // Cached spectrograms of deleted recordings
+  exports: StoredFile[];                // Previously generated export files
+  otherFiles: StoredFile[];             // Anything else in recordings/
+  missingAudio: Recording[];            // Metadata whose audio file is gone
+}
+
+export interface ImportFailure {
+  file: StoredFile;
+  error: string;
+}
+
+let lastReport: ReconciliationReport | null = null;
+
+async function listDirectory(directory: string): Promise<StoredFile[]> {
+  const dirInfo = await FileSystem.getInfoAsync(directory);
+  if (!dirInfo.exists) return [];
+
+  const files: StoredFile[] = [];
+  for (const name of await FileSystem.readDirectoryAsync(directory)) {
+    const uri = `${directory}${name}`;
+    const info = await FileSystem.getInfoAsync(uri, { size: true });
+    if (!info.exists || info.isDirectory) continue;
+    files.push({
+      uri,
+      name,
+      size: info.size,
+      modifiedAt: new Date(info.modificationTime * 1000).toISOString(),
+    });
+  }
+  return files;
+}
+
+// Compare the recordings, spectrograms and exports directories with the stored metadata
+export async function scanStorage(): Promise<ReconciliationReport> {
+  const recordings = await getRecordings();
+  const audioUris = new Set(recordings.map(recording => recording.uri));
+  const spectrogramUris = new Set(recordings.map(recording => spectrogramPath(recording.id)));
+
+  const recordingFiles = await listDirectory(DIRECTORIES.recordings);
+  const isAudio = (file: StoredFile) =>
+    AUDIO_EXTENSIONS.some(extension => file.name.toLowerCase().endsWith(extension));
+
+  const missingAudio: Recording[] = [];
+  for (const recording of recordings) {
+    const fileInfo = await FileSystem.getInfoAsync(recording.uri);
+    if (!fileInfo.exists) missingAudio.push(recording);
+  }
+
+  lastReport = {
+    scannedAt: new Date().toISOString(),
+    orphanedAudio: recordingFiles.filter(file => isAudio(file) && !audioUris.has(file.uri)),
+    orphanedSpectrograms: (await listDirectory(DIRECTORIES.spectrograms))
+      .filter(file => !spectrogramUris.has(file.uri)),
+    exports: await listDirectory(DIRECTORIES.exports),
+    otherFiles: recordingFiles.filter(file => !isAudio(file)),
+    missingAudio,
+  };
+  return lastReport;
+}
+
+// The result of the most recent scan in this launch, if any
+export function getLastReport(): ReconciliationReport | null {
+  return lastReport;
+}
+
+export function countIssues(report: ReconciliationReport): number {
+  return report.orphanedAudio.length
+    + report.orphanedSpectrograms.length
+    + report.otherFiles.length
+    + report.missingAudio.length;
+}
+
+/**
+ * Add orphaned audio files back as recordings, reading each duration from
+ * the file. Files stay where they are; unreadable ones are reported.
+ */
+export async function importOrphanedAudio(
+  files: StoredFile[]
+): Promise<{ imported: Recording[]; failed: ImportFailure[] }> {
+  const imported: Recording[] = [];
+  const failed: ImportFailure[] = [];
+
+  for (const file of files) {
+    try {
+      const duration = await readAudioDuration(file.uri);
+      // Recorder filenames start with the recording type and end with a timestamp
+      const type = file.name.startsWith('cough') ? 'cough' : 'breath';
+      const timestamp = Number(file.name.split('-').pop()?.split('.')[0]);
+      const recording: Recording = {
+        id: `recovered-${file.name}`,
+        uri: file.uri,
+        duration,
+        type,
+        createdAt: timestamp ? new Date(timestamp).toISOString() : file.modifiedAt,
+        fileSize: file.size,
+      };
+      await encryptFile(file.uri);
+      await saveRecordingMetadata(recording);
+      imported.push(recording);
+    } catch (error) {
+      console.error('Error importing orphaned audio:', error);
+      failed.push({ file, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return { imported, failed };
+}
+
+// Delete files from disk; returns how many were removed
+export async function deleteFiles(files: StoredFile[]): Promise<number> {
+  let deleted = 0;
+  for (const file of files) {
+    try {
+      await FileSystem.deleteAsync(file.uri, { idempotent: true });
+      deleted++;
+    } catch (error) {
+      console.error('Error deleting file:', error);
+    }
+  }
+  return deleted;
+}
+
+// Drop recordings whose audio file is gone, with their spectrograms and session links
+export async function removeMissingRecordings(recordings: Recording[]): Promise<number> {
+  let removed = 0;
+  for (const recording of recordings) {
+    try {
+      await deleteRecording(recording.id);
+      removed++;
+    } catch (error) {
+      console.error('Error removing recording:', error);
+    }
+  }
+  return removed;
+}
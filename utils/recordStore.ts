@@ -0,0 +1,221 @@
+/**
+ * Record Store
+ * Recordings stored one per AsyncStorage key, with a compact index of the
+ * fields they are queried by. Writes are serialized and each one updates the
+ * record and the index together in a single multiSet. Records and the index
+ * are encrypted, since both hold health data.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Recording } from '@/types/recording';
+import { encryptString, decryptString } from './encryption';
+
+const RECORD_PREFIX = 'stethopulse_recording:';
+const INDEX_KEY = 'stethopulse_recording_index';
+
+// The fields of a recording that queries can filter on
+export interface IndexEntry {
+  id: string;
+  createdAt: string;
+  type: Recording['type'];
+  condition?: string;
+  sessionId?: string;
+}
+
+export interface RecordingQuery {
+  type?: Recording['type'];
+  condition?: string;
+  sessionIds?: string[];
+  from?: string;              // ISO date, inclusive
+  to?: string;                // ISO date, exclusive
+  offset?: number;
+  limit?: number;
+}
+
+export interface RecordingPage {
+  recordings: Recording[];
+  total: number;              // Matches before paging
+  hasMore: boolean;
+}
+
+// In-memory form of the index: entries newest first, plus lookups by field
+interface IndexState {
+  entries: IndexEntry[];
+  byType: Map<string, Set<string>>;
+  byCondition: Map<string, Set<string>>;
+  bySession: Map<string, Set<string>>;
+}
+
+let indexState: IndexState | null = null;
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+export const recordKey = (id: string) => `${RECORD_PREFIX}${id}`;
+export const isRecordKey = (key: string) => key.startsWith(RECORD_PREFIX) || key === INDEX_KEY;
+
+function toIndexEntry(recording: Recording): IndexEntry {
+  return {
+    id: recording.id,
+    createdAt: recording.createdAt,
+    type: recording.type,
+    condition: recording.analysisResult?.condition,
+    sessionId: recording.sessionId,
+  };
+}
+
+function addToLookup(lookup: Map<string, Set<string>>, value: string | undefined, id: string) {
+  if (value === undefined) return;
+  const ids = lookup.get(value);
+  if (ids) {
+    ids.add(id);
+  } else {
+    lookup.set(value, new Set([id]));
+  }
+}
+
+function buildIndex(entries: IndexEntry[]): IndexState {
+  const state: IndexState = {
+    entries: [...entries].sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+    byType: new Map(),
+    byCondition: new Map(),
+    bySession: new Map(),
+  };
+  for (const entry of state.entries) {
+    addToLookup(state.byType, entry.type, entry.id);
+    addToLookup(state.byCondition, entry.condition, entry.id);
+    addToLookup(state.bySession, entry.sessionId, entry.id);
+  }
+  return state;
+}
+
+async function loadIndex(): Promise<IndexState> {
+  if (!indexState) {
+    const indexJson = await AsyncStorage.getItem(INDEX_KEY);
+    indexState = buildIndex(indexJson ? JSON.parse(await decryptString(indexJson)) : []);
+  }
+  return indexState;
+}
+
+// Run writes one at a time so read-modify-write cycles cannot interleave
+function serialized<T>(task: () => Promise<T>): Promise<T> {
+  const result = writeQueue.then(task);
+  writeQueue = result.catch(() => undefined);
+  return result;
+}
+
+// Write changed records and the updated index in one batch
+async function commit(
+  index: IndexState,
+  upserts: Recording[],
+  removals: string[]
+): Promise<void> {
+  const changed = new Set([...upserts.map(r => r.id), ...removals]);
+  const entries = [
+    ...index.entries.filter(entry => !changed.has(entry.id)),
+    ...upserts.map(toIndexEntry),
+  ];
+
+  const pairs: [string, string][] = [];
+  for (const recording of upserts) {
+    pairs.push([recordKey(recording.id), await encryptString(JSON.stringify(recording))]);
+  }
+  pairs.push([INDEX_KEY, await encryptString(JSON.stringify(entries))]);
+
+  await AsyncStorage.multiSet(pairs);
+  if (removals.length > 0) {
+    await AsyncStorage.multiRemove(removals.map(recordKey));
+  }
+  indexState = buildIndex(entries);
+}
+
+async function readRecords(ids: string[]): Promise<Recording[]> {
+  if (ids.length === 0) return [];
+  const pairs = await AsyncStorage.multiGet(ids.map(recordKey));
+  const recordings: Recording[] = [];
+  for (const [, json] of pairs) {
+    if (json) recordings.push(JSON.parse(await decryptString(json)));
+  }
+  return recordings;
+}
+
+// Intersect the lookups for each filter, then page through the date order
+export async function queryRecordings(query: RecordingQuery = {}): Promise<RecordingPage> {
+  const index = await loadIndex();
+  const filters: Set<string>[] = [];
+  if (query.type) filters.push(index.byType.get(query.type) ?? new Set());
+  if (query.condition) filters.push(index.byCondition.get(query.condition) ?? new Set());
+  if (query.sessionIds) {
+    filters.push(new Set(query.sessionIds.flatMap(id => [...(index.bySession.get(id) ?? [])])));
+  }
+
+  const matches = index.entries.filter(entry =>
+    filters.every(ids => ids.has(entry.id)) &&
+    (!query.from || entry.createdAt >= query.from) &&
+    (!query.to || entry.createdAt < query.to)
+  );
+
+  const offset = query.offset ?? 0;
+  const end = query.limit !== undefined ? offset + query.limit : matches.length;
+  const recordings = await readRecords(matches.slice(offset, end).map(entry => entry.id));
+  return { recordings, total: matches.length, hasMore: end < matches.length };
+}
+
+export async function getRecord(id: string): Promise<Recording | null> {
+  const json = await AsyncStorage.getItem(recordKey(id));
+  return json ? JSON.parse(await decryptString(json)) : null;
+}
+
+// Insert or replace a recording
+export function putRecord(recording: Recording): Promise<void> {
+  return serialized(async () => commit(await loadIndex(), [recording], []));
+}
+
+/**
+ * Atomically update a recording. The updater sees the latest stored value;
+ * returning null leaves the record unchanged.
+ */
+export function updateRecord(
+  id: string,
+  updater: (recording: Recording) => Recording | null
+): Promise<Recording | null> {
+  return serialized(async () => {
+    const current = await getRecord(id);
+    const updated = current ? updater(current) : null;
+    if (updated) {
+      await commit(await loadIndex(), [{ ...updated, id }], []);
+    }
+    return updated;
+  });
+}
+
+export function removeRecords(ids: string[]): Promise<void> {
+  return serialized(async () => commit(await loadIndex(), [], ids));
+}
+
+// Every stored recording, newest first
+export async function readAllRecords(): Promise<Recording[]> {
+  const index = await loadIndex();
+  return readRecords(index.entries.map(entry => entry.id));
+}
+
+// Replace the whole store, e.g. when migrating or clearing all data
+export function replaceAllRecords(recordings: Recording[]): Promise<void> {
+  return serialized(async () => {
+    const keys = await AsyncStorage.getAllKeys();
+    await AsyncStorage.multiRemove(keys.filter(isRecordKey));
+    indexState = buildIndex([]);
+    await commit(indexState, recordings, []);
+  });
+}
+
+// Rewrite every record and the index in place, e.g. to encrypt them under a new key
+export function rewriteAllRecords(): Promise<void> {
+  return serialized(async () => {
+    const index = await loadIndex();
+    await commit(index, await readRecords(index.entries.map(entry => entry.id)), []);
+  });
+}
+
+// Drop the cached index so the next read reloads it, e.g. after a rollback
+export function invalidateIndex(): void {
+  indexState = null;
+}
@@ -0,0 +1,229 @@
+/**
+ * Recording Quality
+ * Checks a captured recording for problems that would make analysis
+ * unreliable and summarizes them as a pass / warn / fail verdict
+ */
+
+import { DecodedAudio } from './wav';
+import { percentile } from './envelope';
+import { detectHeartSounds, suppressHeartSounds } from './heartSounds';
+
+export type QualityVerdict = 'pass' | 'warn' | 'fail';
+
+export type QualityMetric =
+  | 'duration'
+  | 'clipping'
+  | 'snr'
+  | 'dcOffset'
+  | 'silence'
+  | 'handlingNoise';
+
+export interface QualityIssue {
+  metric: QualityMetric;
+  severity: 'warn' | 'fail';
+  message: string;
+}
+
+export interface RecordingQuality {
+  verdict: QualityVerdict;
+  score: number;                  // 0-100
+  duration: number;               // Seconds
+  // Signal metrics are undefined when the audio could not be decoded
+  clippingPercent?: number;
+  snrDb?: number;
+  dcOffset?: number;              // Mean sample value, -1 to 1
+  silenceRatio?: number;          // Fraction of frames below the silence level
+  handlingNoiseBursts?: number;
+  issues: QualityIssue[];
+}
+
+// Minimum usable length, and the length breath analysis needs to see several cycles
+export const MIN_RECORDING_SECONDS = 3;
+const MIN_BREATH_SECONDS = 15;
+
+const FRAME_SECONDS = 0.02;
+const CLIP_LEVEL = 0.99;
+const CLIPPING_WARN_PERCENT = 0.1;
+const CLIPPING_FAIL_PERCENT = 1;
+const SNR_WARN_DB = 10;
+const SNR_FAIL_DB = 3;
+// Coughs are brief, so their level is taken from the loudest frames; breath sounds fill most of the recording
+const SIGNAL_PERCENTILE = { cough: 0.99, breath: 0.9 };
+const DC_OFFSET_WARN = 0.05;
+// Frames quieter than this (about -60 dBFS) count as silence
+const SILENCE_LEVEL = 0.001;
+const SILENCE_WARN_RATIO = 0.7;
+const SILENCE_FAIL_RATIO = 0.95;
+// Handling noise: low-frequency bursts well above the typical low-frequency level
+const HANDLING_CUTOFF_HZ = 60;
+const HANDLING_BURST_RATIO = 6;
+const HANDLING_MIN_SHARE = 0.5;
+// S1/S2 are low-frequency bursts too, but shorter than this
+const HANDLING_MIN_SECONDS = 0.15;
+const HANDLING_FAIL_BURSTS = 5;
+
+const SEVERITY_PENALTY = { warn: 15, fail: 50 };
+
+function summarize(duration: number, issues: QualityIssue[], metrics: Partial<RecordingQuality>): RecordingQuality {
+  const verdict: QualityVerdict = issues.some(issue => issue.severity === 'fail')
+    ? 'fail'
+    : issues.length > 0 ? 'warn' : 'pass';
+  const penalty = issues.reduce((sum, issue) => sum + SEVERITY_PENALTY[issue.severity], 0);
+
+  return {
+    ...metrics,
+    verdict,
+    score: Math.max(0, 100 - penalty),
+    duration,
+    issues,
+  };
+}
+
+function durationIssue(duration: number, type: 'cough' | 'breath'): QualityIssue | null {
+  if (duration < MIN_RECORDING_SECONDS) {
+    return {
+      metric: 'duration',
+      severity: 'fail',
+      message: `Recording is only ${duration.toFixed(1)} seconds; record for at least ${MIN_RECORDING_SECONDS} seconds.`,
+    };
+  }
+  if (type === 'breath' && duration < MIN_BREATH_SECONDS) {
+    return {
+      metric: 'duration',
+      severity: 'warn',
+      message: `Breath recordings of at least ${MIN_BREATH_SECONDS} seconds give more reliable results.`,
+    };
+  }
+  return null;
+}
+
+// Duration-only assessment for recordings that can't be decoded on the device
+export function assessDuration(duration: number, type: 'cough' | 'breath'): RecordingQuality {
+  const issue = durationIssue(duration, type);
+  return summarize(duration, issue ? [issue] : [], {});
+}
+
+// Assess a decoded recording
+export function assessRecordingQuality(
+  audio: DecodedAudio,
+  type: 'cough' | 'breath'
+): RecordingQuality {
+  const { samples, sampleRate, duration } = audio;
+  const issues: QualityIssue[] = [];
+  const issue = durationIssue(duration, type);
+  if (issue) issues.push(issue);
+
+  let sum = 0;
+  let clipped = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i];
+    if (Math.abs(samples[i]) >= CLIP_LEVEL) clipped++;
+  }
+  const dcOffset = samples.length > 0 ? sum / samples.length : 0;
+  const clippingPercent = samples.length > 0 ? (clipped / samples.length) * 100 : 0;
+
+  // Chest recordings carry heartbeats in the handling-noise band, so they are
+  // removed before looking for handling bursts
+  const heartSounds = type === 'breath' ? detectHeartSounds(audio) : null;
+  const handlingSamples = heartSounds ? suppressHeartSounds(audio, heartSounds).samples : samples;
+
+  // Frame RMS of the whole signal and of the low-frequency part of the handling signal
+  const frameLength = Math.max(1, Math.round(FRAME_SECONDS * sampleRate));
+  const frameCount = Math.floor(samples.length / frameLength);
+  const rms = new Float32Array(frameCount);
+  const lowRms = new Float32Array(frameCount);
+  const alpha = 1 - Math.exp((-2 * Math.PI * HANDLING_CUTOFF_HZ) / sampleRate);
+  let low = 0;
+  for (let frame = 0; frame < frameCount; frame++) {
+    let energy = 0;
+    let lowEnergy = 0;
+    for (let i = frame * frameLength; i < (frame + 1) * frameLength; i++) {
+      const value = samples[i] - dcOffset;
+      low += alpha * (handlingSamples[i] - dcOffset - low);
+      energy += value * value;
+      lowEnergy += low * low;
+    }
+    rms[frame] = Math.sqrt(energy / frameLength);
+    lowRms[frame] = Math.sqrt(lowEnergy / frameLength);
+  }
+
+  const noiseFloor = Math.max(percentile(rms, 0.1), 1e-6);
+  const signalLevel = percentile(rms, SIGNAL_PERCENTILE[type]);
+  const snrDb = 20 * Math.log10(Math.max(signalLevel, 1e-6) / noiseFloor);
+
+  let silentFrames = 0;
+  for (let frame = 0; frame < frameCount; frame++) {
+    if (rms[frame] < SILENCE_LEVEL) silentFrames++;
+  }
+  const silenceRatio = frameCount > 0 ? silentFrames / frameCount : 1;
+
+  // Count runs of frames dominated by a low-frequency burst, long enough not to be a heart sound
+  const typicalLow = Math.max(percentile(lowRms, 0.5), 1e-6);
+  const minBurstFrames = Math.ceil(HANDLING_MIN_SECONDS / FRAME_SECONDS);
+  let handlingNoiseBursts = 0;
+  let burstFrames = 0;
+  for (let frame = 0; frame <= frameCount; frame++) {
+    const burst =
+      frame < frameCount &&
+      lowRms[frame] > typicalLow * HANDLING_BURST_RATIO &&
+      lowRms[frame] > rms[frame] * HANDLING_MIN_SHARE;
+    if (burst) {
+      burstFrames++;
+    } else {
+      if (burstFrames >= minBurstFrames) handlingNoiseBursts++;
+      burstFrames = 0;
+    }
+  }
+
+  if (clippingPercent >= CLIPPING_WARN_PERCENT) {
+    issues.push({
+      metric: 'clipping',
+      severity: clippingPercent >= CLIPPING_FAIL_PERCENT ? 'fail' : 'warn',
+      message: `${clippingPercent.toFixed(1)}% of the recording is clipped; hold the device a little further away.`,
+    });
+  }
+  if (silenceRatio >= SILENCE_FAIL_RATIO) {
+    issues.push({
+      metric: 'silence',
+      severity: 'fail',
+      message: 'The recording is almost silent; check that the microphone is not covered.',
+    });
+  } else {
+    if (silenceRatio >= SILENCE_WARN_RATIO) {
+      issues.push({
+        metric: 'silence',
+        severity: 'warn',
+        message: `${Math.round(silenceRatio * 100)}% of the recording is silent.`,
+      });
+    }
+    if (snrDb < SNR_WARN_DB) {
+      issues.push({
+        metric: 'snr',
+        severity: snrDb < SNR_FAIL_DB ? 'fail' : 'warn',
+        message: `Background noise is high (SNR ${snrDb.toFixed(0)} dB); record in a quieter place.`,
+      });
+    }
+  }
+  if (Math.abs(dcOffset) >= DC_OFFSET_WARN) {
+    issues.push({
+      metric: 'dcOffset',
+      severity: 'warn',
+      message: 'The microphone signal has a large DC offset.',
+    });
+  }
+  if (handlingNoiseBursts > 0) {
+    issues.push({
+      metric: 'handlingNoise',
+      severity: handlingNoiseBursts >= HANDLING_FAIL_BURSTS ? 'fail' : 'warn',
+      message: `${handlingNoiseBursts} handling noise ${handlingNoiseBursts === 1 ? 'burst' : 'bursts'} detected; keep the device still while recording.`,
+    });
+  }
+
+  return summarize(duration, issues, {
+    clippingPercent,
+    snrDb,
+    dcOffset,
+    silenceRatio,
+    handlingNoiseBursts,
+  });
+}
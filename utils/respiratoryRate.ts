@@ -0,0 +1,175 @@
+/**
+ * Respiratory Rate
+ * Estimates breaths per minute from the breath-sound envelope using
+ * autocorrelation, cross-checked against envelope peak picking
+ */
+
+import { DecodedAudio } from './wav';
+import {
+  Envelope,
+  bandEnvelope,
+  movingAverage,
+  envelopeTime,
+  percentile,
+  autocorrelation,
+} from './envelope';
+
+export interface RespiratoryRateEstimate {
+  breathsPerMinute: number;
+  confidence: number;     // 0-1
+  period: number;         // Seconds per breath cycle
+  cycleTimes: number[];   // Envelope peak time (seconds) of each detected cycle
+}
+
+// Tracheal/lung breath sounds carry most of their energy here
+export const BREATH_BAND_LOW = 150;
+export const BREATH_BAND_HIGH = 1000;
+
+const MIN_BREATHS_PER_MINUTE = 6;
+const MAX_BREATHS_PER_MINUTE = 60;
+const ENVELOPE_RATE = 20;
+const SMOOTHING_SECONDS = 0.4;
+// Shorter lags within this fraction of the best peak are preferred (avoids period doubling)
+const FUNDAMENTAL_RATIO = 0.9;
+// With similar inspiration and expiration sounds the envelope also repeats every
+// half breath; a lag is taken to be half a breath when the correlation at its even
+// multiples exceeds that at its odd multiples by this much
+const HALF_BREATH_MARGIN = 0.03;
+const MIN_CORRELATION = 0.15;
+
+// Lag of the highest correlation within 5% of `target`
+function peakNear(correlation: Float32Array, target: number): number {
+  const reach = Math.max(1, Math.round(target * 0.05));
+  let peak = target;
+  for (let l = target - reach; l <= Math.min(target + reach, correlation.length - 1); l++) {
+    if (correlation[l] > correlation[peak]) peak = l;
+  }
+  return peak;
+}
+
+/**
+ * Whether `lag` is the inspiration-to-expiration spacing rather than the breath
+ * period: a true period repeats equally at every multiple, while half a breath
+ * lines up at least as well at twice the lag, and better at even multiples
+ * (whole breaths) than at odd ones.
+ */
+function isHalfBreath(correlation: Float32Array, lag: number): boolean {
+  if (correlation[peakNear(correlation, 2 * lag)] < correlation[lag]) return false;
+
+  const odd: number[] = [];
+  const even: number[] = [];
+  for (let multiple = 1; multiple * lag + Math.round(multiple * lag * 0.05) < correlation.length; multiple++) {
+    (multiple % 2 ? odd : even).push(correlation[peakNear(correlation, multiple * lag)]);
+  }
+  if (even.length === 0) return false;
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  return mean(even) - mean(odd) > HALF_BREATH_MARGIN;
+}
+
+// Smoothed breath-band envelope shared by the breath analysis stages
+export function breathEnvelope(audio: DecodedAudio): Envelope {
+  const envelope = bandEnvelope(audio.samples, audio.sampleRate, {
+    lowFrequency: BREATH_BAND_LOW,
+    highFrequency: BREATH_BAND_HIGH,
+    rate: ENVELOPE_RATE,
+  });
+  const window = Math.max(1, Math.round(SMOOTHING_SECONDS * envelope.rate));
+  return { ...envelope, values: movingAverage(envelope.values, window) };
+}
+
+// Find envelope peaks at least `minDistance` samples apart and above `threshold`
+export function findEnvelopePeaks(
+  values: Float32Array,
+  minDistance: number,
+  threshold: number
+): number[] {
+  const peaks: number[] = [];
+  for (let i = 1; i < values.length - 1; i++) {
+    if (values[i] < threshold || values[i] < values[i - 1] || values[i] < values[i + 1]) {
+      continue;
+    }
+    const last = peaks[peaks.length - 1];
+    if (last !== undefined && i - last < minDistance) {
+      // Keep the larger of two peaks that are too close together
+      if (values[i] > values[last]) peaks[peaks.length - 1] = i;
+      continue;
+    }
+    peaks.push(i);
+  }
+  return peaks;
+}
+
+// Estimate the respiratory rate; returns null when no periodic breathing is found
+export function estimateRespiratoryRate(audio: DecodedAudio): RespiratoryRateEstimate | null {
+  const envelope = breathEnvelope(audio);
+  return estimateRateFromEnvelope(envelope);
+}
+
+export function estimateRateFromEnvelope(envelope: Envelope): RespiratoryRateEstimate | null {
+  const { values, rate } = envelope;
+  const minLag = Math.max(1, Math.floor((rate * 60) / MAX_BREATHS_PER_MINUTE));
+  // Require at least two full cycles inside the recording
+  const maxLag = Math.min(
+    Math.ceil((rate * 60) / MIN_BREATHS_PER_MINUTE),
+    Math.floor(values.length / 2)
+  );
+  if (maxLag <= minLag + 1) {
+    return null;
+  }
+
+  // Computed beyond maxLag so multiples of the chosen lag can be checked
+  const correlation = autocorrelation(values, minLag, Math.floor(values.length / 2));
+
+  // Local maxima of the autocorrelation within the plausible lag range
+  const candidates: number[] = [];
+  for (let lag = minLag + 1; lag < maxLag; lag++) {
+    if (correlation[lag] > correlation[lag - 1] && correlation[lag] >= correlation[lag + 1]) {
+      candidates.push(lag);
+    }
+  }
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const best = Math.max(...candidates.map(lag => correlation[lag]));
+  if (best < MIN_CORRELATION) {
+    return null;
+  }
+  let lag = candidates.find(l => correlation[l] >= best * FUNDAMENTAL_RATIO) as number;
+  if (2 * lag <= maxLag && isHalfBreath(correlation, lag)) {
+    lag = peakNear(correlation, 2 * lag);
+  }
+
+  // Parabolic interpolation around the chosen lag
+  const y0 = correlation[lag - 1];
+  const y1 = correlation[lag];
+  const y2 = correlation[lag + 1];
+  const curvature = y0 - 2 * y1 + y2;
+  const refinedLag = curvature !== 0 ? lag + (0.5 * (y0 - y2)) / curvature : lag;
+
+  const period = refinedLag / rate;
+  const breathsPerMinute = 60 / period;
+
+  // Cross-check by picking one envelope peak per cycle
+  const threshold = percentile(values, 0.5);
+  const peaks = findEnvelopePeaks(values, Math.round(refinedLag * 0.6), threshold);
+  const cycleTimes = peaks.map(index => envelopeTime(envelope, index));
+
+  let agreement = 0.5;
+  if (cycleTimes.length >= 2) {
+    const span = cycleTimes[cycleTimes.length - 1] - cycleTimes[0];
+    const peakRate = ((cycleTimes.length - 1) * 60) / span;
+    agreement = Math.max(0, 1 - Math.abs(peakRate - breathsPerMinute) / breathsPerMinute);
+  }
+
+  const duration = values.length / rate;
+  const coverage = Math.min(1, duration / (3 * period));
+  const confidence = Math.max(0, Math.min(1, y1 * coverage * (0.5 + 0.5 * agreement)));
+
+  return {
+    breathsPerMinute: Math.round(breathsPerMinute * 10) / 10,
+    confidence,
+    period,
+    cycleTimes,
+  };
+}
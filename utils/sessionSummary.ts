@@ -0,0 +1,75 @@
+/**
+ * Session Summary
+ * Aggregates the per-recording analysis results of a session into
+ * session-level figures and findings
+ */
+
+import { Recording } from '@/types/recording';
+import { AuscultationSite } from './auscultation';
+
+export interface SessionFinding {
+  recordingId: string;
+  site?: AuscultationSite;
+  condition: string;
+}
+
+export interface SessionSummary {
+  recordingCount: number;
+  analyzedCount: number;
+  totalDuration: number;                // Seconds
+  meanRespiratoryRate: number | null;   // Breaths per minute
+  meanHeartRate: number | null;         // Beats per minute
+  wheezeCount: number;
+  fineCrackleCount: number;
+  coarseCrackleCount: number;
+  coughCount: number;
+  prolongedExpiration: boolean;
+  conditions: Record<string, number>;   // Recordings per reported condition
+  findings: SessionFinding[];           // Recordings with a condition other than Normal
+}
+
+function mean(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+// Combine the analysis results of a session's recordings
+export function summarizeSession(recordings: Recording[]): SessionSummary {
+  const analyzed = recordings.flatMap(recording =>
+    recording.analysisResult ? [{ recording, result: recording.analysisResult }] : []
+  );
+  const results = analyzed.map(({ result }) => result);
+
+  const conditions: Record<string, number> = {};
+  for (const result of results) {
+    conditions[result.condition] = (conditions[result.condition] ?? 0) + 1;
+  }
+
+  const respiratoryRates = results
+    .map(result => result.respiratoryRate)
+    .filter((rate): rate is number => rate !== undefined && rate > 0);
+  const heartRates = results
+    .map(result => result.heartRate)
+    .filter((rate): rate is number => rate !== undefined);
+
+  return {
+    recordingCount: recordings.length,
+    analyzedCount: analyzed.length,
+    totalDuration: recordings.reduce((sum, recording) => sum + recording.duration, 0),
+    meanRespiratoryRate: mean(respiratoryRates),
+    meanHeartRate: mean(heartRates),
+    wheezeCount: results.reduce((sum, result) => sum + (result.wheezes?.count ?? 0), 0),
+    fineCrackleCount: results.reduce((sum, result) => sum + (result.crackles?.fineCount ?? 0), 0),
+    coarseCrackleCount: results.reduce((sum, result) => sum + (result.crackles?.coarseCount ?? 0), 0),
+    coughCount: recordings.reduce((sum, recording) => sum + (recording.coughEvents?.length ?? 0), 0),
+    prolongedExpiration: results.some(result => result.prolongedExpiration),
+    conditions,
+    findings: analyzed
+      .filter(({ result }) => result.condition !== 'Normal')
+      .map(({ recording, result }) => ({
+        recordingId: recording.id,
+        site: recording.site,
+        condition: result.condition,
+      })),
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * Spectrogram
+ * Band-limited time × frequency magnitude matrix (dB) computed from decoded audio
+ */
+
+import { stftAsync, magnitudeToDb, nextPowerOfTwo } from './fft';
+import { base64ToBytes, bytesToBase64 } from './base64';
+import { DecodedAudio } from './wav';
+
+// Lung sounds live well inside this band; heart sounds and hiss are mostly outside it
+export const SPECTROGRAM_MIN_FREQUENCY = 20;
+export const SPECTROGRAM_MAX_FREQUENCY = 2000;
+
+// Bump when the computation or serialized layout changes so cached files are recomputed
+export const SPECTROGRAM_VERSION = 1;
+
+// Upper bound on time columns so multi-minute recordings stay small on disk
+const MAX_FRAMES = 4000;
+// Target analysis window length in seconds (~46 ms gives ~20 Hz bins)
+const WINDOW_SECONDS = 0.046;
+
+export interface Spectrogram {
+  frames: number;
+  bins: number;
+  data: Float32Array;     // dB values, row-major: data[frame * bins + bin], bin 0 = lowest frequency
+  minFrequency: number;   // Centre frequency of bin 0 (Hz)
+  maxFrequency: number;   // Centre frequency of the last bin (Hz)
+  binWidth: number;       // Hz per bin
+  frameDuration: number;  // Seconds between consecutive frames
+  frameOffset: number;    // Centre time of frame 0 (seconds)
+  duration: number;       // Duration of the source audio (seconds)
+  minDb: number;
+  maxDb: number;
+}
+
+export interface SpectrogramOptions {
+  minFrequency?: number;
+  maxFrequency?: number;
+  floorDb?: number;
+}
+
+// Compute a dB spectrogram limited to the lung-sound band
+export async function computeSpectrogram(
+  audio: DecodedAudio,
+  options: SpectrogramOptions = {}
+): Promise<Spectrogram> {
+  const { samples, sampleRate } = audio;
+  const minFrequency = options.minFrequency ?? SPECTROGRAM_MIN_FREQUENCY;
+  const maxFrequency = Math.min(options.maxFrequency ?? SPECTROGRAM_MAX_FREQUENCY, sampleRate / 2);
+  const floorDb = options.floorDb ?? -120;
+
+  const fftSize = nextPowerOfTwo(Math.round(sampleRate * WINDOW_SECONDS));
+  const hopSize = Math.max(
+    fftSize / 4,
+    Math.ceil(Math.max(0, samples.length - fftSize) / MAX_FRAMES)
+  );
+
+  const result = await stftAsync(samples, {
+    fftSize,
+    hopSize,
+    sampleRate,
+    window: 'hann',
+    minFrequency,
+    maxFrequency,
+  });
+
+  const data = result.data;
+  let minDb = Infinity;
+  let maxDb = -Infinity;
+  for (let i = 0; i < data.length; i++) {
+    const db = magnitudeToDb(data[i], floorDb);
+    data[i] = db;
+    if (db < minDb) minDb = db;
+    if (db > maxDb) maxDb = db;
+  }
+
+  return {
+    frames: result.frames,
+    bins: result.bins,
+    data,
+    minFrequency: result.firstBin * result.binWidth,
+    maxFrequency: (result.firstBin + result.bins - 1) * result.binWidth,
+    binWidth: result.binWidth,
+    frameDuration: hopSize / sampleRate,
+    frameOffset: fftSize / 2 / sampleRate,
+    duration: audio.duration,
+    minDb: Number.isFinite(minDb) ? minDb : floorDb,
+    maxDb: Number.isFinite(maxDb) ? maxDb : floorDb,
+  };
+}
+
+// Serialize a spectrogram to JSON, storing the matrix as base64-encoded Float32 bytes
+export function serializeSpectrogram(spectrogram: Spectrogram): string {
+  const { data, ...header } = spectrogram;
+  const bytes = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  return JSON.stringify({
+    version: SPECTROGRAM_VERSION,
+    ...header,
+    data: bytesToBase64(bytes),
+  });
+}
+
+// Parse a serialized spectrogram; returns null for stale or malformed payloads
+export function deserializeSpectrogram(json: string): Spectrogram | null {
+  try {
+    const parsed = JSON.parse(json);
+    if (parsed.version !== SPECTROGRAM_VERSION || typeof parsed.data !== 'string') {
+      return null;
+    }
+
+    const bytes = base64ToBytes(parsed.data);
+    // Copy into an aligned buffer before viewing as floats
+    const data = new Float32Array(bytes.slice().buffer, 0, Math.floor(bytes.byteLength / 4));
+    if (data.length !== parsed.frames * parsed.bins) {
+      return null;
+    }
+
+    return {
+      frames: parsed.frames,
+      bins: parsed.bins,
+      data,
+      minFrequency: parsed.minFrequency,
+      maxFrequency: parsed.maxFrequency,
+      binWidth: parsed.binWidth,
+      frameDuration: parsed.frameDuration,
+      frameOffset: parsed.frameOffset,
+      duration: parsed.duration,
+      minDb: parsed.minDb,
+      maxDb: parsed.maxDb,
+    };
+  } catch {
+    return null;
+  }
+}
@@ -1,9 +1,40 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as FileSystem from 'expo-file-system';
-import { Recording } from '@/types/recording';
+import { Recording, Session } from '@/types/recording';
+import { ProtocolConfig, DEFAULT_PROTOCOL } from './auscultation';
+import { Spectrogram, serializeSpectrogram, deserializeSpectrogram } from './spectrogram';
+import { runMigrations, reencryptMigrationBackup } from './migrations';
+import {
+  encryptString,
+  decryptString,
+  needsReencryption,
+  encryptFile,
+  isEncrypting,
+  getEncryptionStatus,
+  addKey,
+  retireOldKeys,
+} from './encryption';
+import {
+  RecordingQuery,
+  RecordingPage,
+  queryRecordings as queryStore,
+  getRecord,
+  putRecord,
+  updateRecord,
+  removeRecords,
+  replaceAllRecords,
+  rewriteAllRecords,
+} from './recordStore';
 
-const RECORDINGS_KEY = 'stethopulse_recordings';
+export type { RecordingQuery, RecordingPage } from './recordStore';
+
+const PROTOCOL_KEY = 'stethopulse_protocol';
+const SESSIONS_KEY = 'stethopulse_sessions';
+const ENCRYPTED_KEY_ID_KEY = 'stethopulse_encrypted_key_id';
 const RECORDINGS_DIRECTORY = `${FileSystem.documentDirectory}recordings/`;
+const SPECTROGRAMS_DIRECTORY = `${FileSystem.documentDirectory}spectrograms/`;
+
+let sessionsQueue: Promise<unknown> = Promise.resolve();
 
 // Ensure recordings directory exists
 export async function ensureDirectoryExists(): Promise<void> {
@@ -13,55 +44,57 @@ export async function ensureDirectoryExists(): Promise<void> {
   }
 }
 
-// Save recording metadata to AsyncStorage
+// Save recording metadata
 export async function saveRecordingMetadata(recording: Recording): Promise<void> {
   try {
-    const existingRecordings = await getRecordings();
-    const updatedRecordings = [recording, ...existingRecordings];
-    await AsyncStorage.setItem(RECORDINGS_KEY, JSON.stringify(updatedRecordings));
+    await runMigrations();
+    await putRecord(recording);
+    if (recording.sessionId) {
+      await addRecordingToSession(recording.sessionId, recording.id);
+    }
   } catch (error) {
     console.error('Error saving recording metadata:', error);
     throw error;
   }
 }
 
-// Get all recordings from AsyncStorage
-export async function getRecordings(): Promise<Recording[]> {
+/**
+ * Query recordings, newest first. Patient matches the patient of the
+ * recording's session. Files are not checked here; see utils/reconciliation.ts.
+ */
+export async function queryRecordings(
+  query: RecordingQuery & { patient?: string } = {}
+): Promise<RecordingPage> {
   try {
-    const recordingsJson = await AsyncStorage.getItem(RECORDINGS_KEY);
-    if (!recordingsJson) return [];
-    
-    const recordings: Recording[] = JSON.parse(recordingsJson);
-    
-    // Verify files still exist and filter out missing ones
-    const validRecordings: Recording[] = [];
-    
-    for (const recording of recordings) {
-      const fileInfo = await FileSystem.getInfoAsync(recording.uri);
-      if (fileInfo.exists) {
-        validRecordings.push(recording);
-      }
-    }
-    
-    // Update storage if we filtered out any recordings
-    if (validRecordings.length !== recordings.length) {
-      await AsyncStorage.setItem(RECORDINGS_KEY, JSON.stringify(validRecordings));
+    // Never read a payload older than the current schema
+    await runMigrations();
+    const { patient, ...storeQuery } = query;
+    if (patient !== undefined) {
+      const needle = patient.trim().toLowerCase();
+      const sessionIds = (await getSessions())
+        .filter(session => session.patient?.toLowerCase().includes(needle))
+        .map(session => session.id);
+      storeQuery.sessionIds = storeQuery.sessionIds
+        ? storeQuery.sessionIds.filter(id => sessionIds.includes(id))
+        : sessionIds;
     }
-    
-    return validRecordings.sort((a, b) => 
-      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-    );
+    return await queryStore(storeQuery);
   } catch (error) {
-    console.error('Error getting recordings:', error);
-    return [];
+    console.error('Error querying recordings:', error);
+    return { recordings: [], total: 0, hasMore: false };
   }
 }
 
+// Get all recordings, newest first
+export async function getRecordings(): Promise<Recording[]> {
+  return (await queryRecordings()).recordings;
+}
+
 // Get a single recording by ID
 export async function getRecordingById(id: string): Promise<Recording | null> {
   try {
-    const recordings = await getRecordings();
-    return recordings.find(recording => recording.id === id) || null;
+    await runMigrations();
+    return await getRecord(id);
   } catch (error) {
     console.error('Error getting recording by ID:', error);
     return null;
@@ -71,19 +104,21 @@ export async function getRecordingById(id: string): Promise<Recording | null> {
 // Delete a recording
 export async function deleteRecording(id: string): Promise<void> {
   try {
-    const recordings = await getRecordings();
-    const recordingToDelete = recordings.find(r => r.id === id);
+    const recordingToDelete = await getRecordingById(id);
     
     if (recordingToDelete) {
-      // Delete the file
+      // Delete the file and its cached spectrogram
       const fileInfo = await FileSystem.getInfoAsync(recordingToDelete.uri);
       if (fileInfo.exists) {
         await FileSystem.deleteAsync(recordingToDelete.uri);
       }
+      await deleteSpectrogram(id);
       
       // Update metadata
-      const updatedRecordings = recordings.filter(r => r.id !== id);
-      await AsyncStorage.setItem(RECORDINGS_KEY, JSON.stringify(updatedRecordings));
+      await removeRecords([id]);
+      if (recordingToDelete.sessionId) {
+        await removeRecordingFromSession(recordingToDelete.sessionId, id);
+      }
     }
   } catch (error) {
     console.error('Error deleting recording:', error);
@@ -102,10 +137,12 @@ export async function clearAllRecordings(): Promise<void> {
       if (fileInfo.exists) {
         await FileSystem.deleteAsync(recording.uri);
       }
+      await deleteSpectrogram(recording.id);
     }
     
     // Clear metadata
-    await AsyncStorage.removeItem(RECORDINGS_KEY);
+    await replaceAllRecords([]);
+    await serializedSessions(() => AsyncStorage.removeItem(SESSIONS_KEY));
   } catch (error) {
     console.error('Error clearing all recordings:', error);
     throw error;
@@ -115,13 +152,288 @@ export async function clearAllRecordings(): Promise<void> {
 // Update recording metadata
 export async function updateRecording(id: string, updates: Partial<Recording>): Promise<void> {
   try {
-    const recordings = await getRecordings();
-    const updatedRecordings = recordings.map(recording =>
-      recording.id === id ? { ...recording, ...updates } : recording
-    );
-    await AsyncStorage.setItem(RECORDINGS_KEY, JSON.stringify(updatedRecordings));
+    await runMigrations();
+    await updateRecord(id, recording => ({ ...recording, ...updates }));
   } catch (error) {
     console.error('Error updating recording:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+// Path of the cached spectrogram for a recording
+export function spectrogramPath(recordingId: string): string {
+  const safeId = recordingId.replace(/[^\w.-]/g, '_');
+  return `${SPECTROGRAMS_DIRECTORY}${safeId}.json`;
+}
+
+// Cache a computed spectrogram keyed by recording ID
+export async function saveSpectrogram(
+  recordingId: string,
+  spectrogram: Spectrogram
+): Promise<boolean> {
+  try {
+    const dirInfo = await FileSystem.getInfoAsync(SPECTROGRAMS_DIRECTORY);
+    if (!dirInfo.exists) {
+      await FileSystem.makeDirectoryAsync(SPECTROGRAMS_DIRECTORY, { intermediates: true });
+    }
+    await FileSystem.writeAsStringAsync(
+      spectrogramPath(recordingId),
+      await encryptString(serializeSpectrogram(spectrogram))
+    );
+    return true;
+  } catch (error) {
+    console.error('Error saving spectrogram:', error);
+    return false;
+  }
+}
+
+// Load a cached spectrogram, or null if missing or stale
+export async function loadSpectrogram(recordingId: string): Promise<Spectrogram | null> {
+  try {
+    const path = spectrogramPath(recordingId);
+    const fileInfo = await FileSystem.getInfoAsync(path);
+    if (!fileInfo.exists) {
+      return null;
+    }
+    return deserializeSpectrogram(await decryptString(await FileSystem.readAsStringAsync(path)));
+  } catch (error) {
+    console.error('Error loading spectrogram:', error);
+    return null;
+  }
+}
+
+// Remove a cached spectrogram
+export async function deleteSpectrogram(recordingId: string): Promise<void> {
+  try {
+    await FileSystem.deleteAsync(spectrogramPath(recordingId), { idempotent: true });
+  } catch (error) {
+    console.error('Error deleting spectrogram:', error);
+  }
+}
+
+// Get the guided session protocol, falling back to the default sequence
+export async function getProtocolConfig(): Promise<ProtocolConfig> {
+  try {
+    const configJson = await AsyncStorage.getItem(PROTOCOL_KEY);
+    if (!configJson) return DEFAULT_PROTOCOL;
+    return { ...DEFAULT_PROTOCOL, ...JSON.parse(configJson) };
+  } catch (error) {
+    console.error('Error getting protocol config:', error);
+    return DEFAULT_PROTOCOL;
+  }
+}
+
+// Save the guided session protocol
+export async function saveProtocolConfig(config: ProtocolConfig): Promise<void> {
+  try {
+    await AsyncStorage.setItem(PROTOCOL_KEY, JSON.stringify(config));
+  } catch (error) {
+    console.error('Error saving protocol config:', error);
+    throw error;
+  }
+}
+
+// Run session writes one at a time so read-modify-write cycles cannot interleave
+function serializedSessions<T>(task: () => Promise<T>): Promise<T> {
+  const result = sessionsQueue.then(task);
+  sessionsQueue = result.catch(() => undefined);
+  return result;
+}
+
+// Read the stored session list, throwing if it can't be read
+async function readSessions(): Promise<Session[]> {
+  await runMigrations();
+  const sessionsJson = await AsyncStorage.getItem(SESSIONS_KEY);
+  return sessionsJson ? JSON.parse(await decryptString(sessionsJson)) : [];
+}
+
+// Read, change and write back the session list as one queued step. A failed
+// read aborts the write rather than replacing the list with an empty one.
+function updateSessions(change: (sessions: Session[]) => Session[]): Promise<void> {
+  return serializedSessions(async () => {
+    const sessions = change(await readSessions());
+    await AsyncStorage.setItem(SESSIONS_KEY, await encryptString(JSON.stringify(sessions)));
+  });
+}
+
+// Create an empty session
+export async function createSession(
+  details: Pick<Session, 'patient' | 'notes'> = {}
+): Promise<Session> {
+  try {
+    const session: Session = {
+      id: `session-${Date.now()}`,
+      createdAt: new Date().toISOString(),
+      ...details,
+      recordingIds: [],
+    };
+    await updateSessions(sessions => [session, ...sessions]);
+    return session;
+  } catch (error) {
+    console.error('Error creating session:', error);
+    throw error;
+  }
+}
+
+// Get all sessions, newest first
+export async function getSessions(): Promise<Session[]> {
+  try {
+    const sessions = await readSessions();
+    return sessions.sort((a, b) =>
+      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    );
+  } catch (error) {
+    console.error('Error getting sessions:', error);
+    return [];
+  }
+}
+
+// Get a single session by ID
+export async function getSessionById(id: string): Promise<Session | null> {
+  try {
+    const sessions = await getSessions();
+    return sessions.find(session => session.id === id) || null;
+  } catch (error) {
+    console.error('Error getting session by ID:', error);
+    return null;
+  }
+}
+
+// Get the recordings that belong to a session, in recording order
+export async function getSessionRecordings(session: Session): Promise<Recording[]> {
+  const { recordings } = await queryRecordings({ sessionIds: [session.id] });
+  return recordings.reverse();
+}
+
+// Update session metadata
+export async function updateSession(
+  id: string,
+  updates: Partial<Omit<Session, 'id'>>
+): Promise<void> {
+  try {
+    await updateSessions(sessions => sessions.map(session =>
+      session.id === id ? { ...session, ...updates } : session
+    ));
+  } catch (error) {
+    console.error('Error updating session:', error);
+    throw error;
+  }
+}
+
+// Delete a session; its recordings are kept and become standalone
+export async function deleteSession(id: string): Promise<void> {
+  try {
+    await updateSessions(sessions => sessions.filter(session => session.id !== id));
+
+    const { recordings } = await queryRecordings({ sessionIds: [id] });
+    for (const recording of recordings) {
+      await updateRecord(recording.id, current => ({ ...current, sessionId: undefined }));
+    }
+  } catch (error) {
+    console.error('Error deleting session:', error);
+    throw error;
+  }
+}
+
+// Add a recording id to a session's members
+export async function addRecordingToSession(sessionId: string, recordingId: string): Promise<void> {
+  await updateSessions(sessions => sessions.map(session =>
+    session.id === sessionId && !session.recordingIds.includes(recordingId)
+      ? { ...session, recordingIds: [...session.recordingIds, recordingId] }
+      : session
+  ));
+}
+
+async function removeRecordingFromSession(sessionId: string, recordingId: string): Promise<void> {
+  await updateSessions(sessions => sessions.map(session =>
+    session.id === sessionId
+      ? { ...session, recordingIds: session.recordingIds.filter(id => id !== recordingId) }
+      : session
+  ));
+}
+
+// Encrypt every file in a directory under the current key; returns the number that failed
+async function encryptDirectory(directory: string, encrypt: (uri: string) => Promise<void>): Promise<number> {
+  const dirInfo = await FileSystem.getInfoAsync(directory);
+  if (!dirInfo.exists) return 0;
+
+  let failed = 0;
+  for (const fileName of await FileSystem.readDirectoryAsync(directory)) {
+    const uri = `${directory}${fileName}`;
+    try {
+      if (fileName.endsWith('.encrypting')) {
+        // Left by an interrupted write, unless one is in progress; the original is still intact
+        if (!isEncrypting(uri.slice(0, -'.encrypting'.length))) {
+          await FileSystem.deleteAsync(uri, { idempotent: true });
+        }
+      } else {
+        await encrypt(uri);
+      }
+    } catch (error) {
+      console.error('Error encrypting file:', error);
+      failed++;
+    }
+  }
+  return failed;
+}
+
+async function encryptSpectrogramFile(uri: string): Promise<void> {
+  const text = await FileSystem.readAsStringAsync(uri);
+  if (await needsReencryption(text)) {
+    await FileSystem.writeAsStringAsync(uri, await encryptString(await decryptString(text)));
+  }
+}
+
+let encryptionPass: Promise<void> | null = null;
+
+/**
+ * Make sure all recordings, sessions and files are encrypted under the
+ * current key: encrypts data from before encryption existed and finishes an
+ * interrupted key rotation. Cheap when there is nothing to do.
+ */
+export function ensureDataEncrypted(): Promise<void> {
+  if (!encryptionPass) {
+    encryptionPass = (async () => {
+      await runMigrations();
+      const status = await getEncryptionStatus();
+      const encryptedKeyId = await AsyncStorage.getItem(ENCRYPTED_KEY_ID_KEY);
+
+      if (encryptedKeyId !== String(status.keyId)) {
+        await rewriteAllRecords();
+        await serializedSessions(async () => {
+          const sessionsJson = await AsyncStorage.getItem(SESSIONS_KEY);
+          if (sessionsJson && await needsReencryption(sessionsJson)) {
+            await AsyncStorage.setItem(SESSIONS_KEY, await encryptString(await decryptString(sessionsJson)));
+          }
+        });
+        const failed = await encryptDirectory(RECORDINGS_DIRECTORY, encryptFile)
+          + await encryptDirectory(SPECTROGRAMS_DIRECTORY, encryptSpectrogramFile);
+        await reencryptMigrationBackup();
+        if (failed > 0) {
+          // Keep the old keys and try the remaining files again next launch
+          throw new Error(`${failed} files could not be encrypted`);
+        }
+        await AsyncStorage.setItem(ENCRYPTED_KEY_ID_KEY, String(status.keyId));
+      }
+      // Nothing needs the old keys once everything is under the current one
+      if (status.retiredKeys > 0) {
+        await retireOldKeys();
+      }
+    })().finally(() => {
+      encryptionPass = null;
+    });
+  }
+  return encryptionPass;
+}
+
+// Switch to a new encryption key and re-encrypt all stored data with it
+export async function rotateEncryptionKey(): Promise<void> {
+  try {
+    await encryptionPass;
+    await addKey();
+    await ensureDataEncrypted();
+  } catch (error) {
+    console.error('Error rotating encryption key:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * WAV Decoder
+ * Parses RIFF/WAVE files written by the recorder into normalized mono samples
+ */
+
+export interface DecodedAudio {
+  samples: Float32Array;  // Mono samples in the range [-1, 1]
+  sampleRate: number;
+  channels: number;       // Channel count of the source file before downmixing
+  bitDepth: number;
+  format: 'pcm' | 'float';
+  duration: number;       // Seconds
+}
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+function readFourCC(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+}
+
+// Read a single sample from the data chunk and scale it to [-1, 1]
+function readSample(
+  view: DataView,
+  offset: number,
+  bitDepth: number,
+  isFloat: boolean
+): number {
+  if (isFloat) {
+    const value = bitDepth === 64
+      ? view.getFloat64(offset, true)
+      : view.getFloat32(offset, true);
+    return Math.max(-1, Math.min(1, value));
+  }
+
+  switch (bitDepth) {
+    case 8:
+      // 8-bit WAV is unsigned with a 128 midpoint
+      return (view.getUint8(offset) - 128) / 128;
+    case 16:
+      return view.getInt16(offset, true) / 32768;
+    case 24: {
+      const value =
+        view.getUint8(offset) |
+        (view.getUint8(offset + 1) << 8) |
+        (view.getInt8(offset + 2) << 16);
+      return value / 8388608;
+    }
+    case 32:
+      return view.getInt32(offset, true) / 2147483648;
+    default:
+      throw new Error(`Unsupported PCM bit depth: ${bitDepth}`);
+  }
+}
+
+export interface WavHeader {
+  formatTag: number;
+  channels: number;
+  sampleRate: number;
+  bitDepth: number;
+  blockAlign: number;
+  dataOffset: number;
+  dataLength: number;     // Bytes of sample data
+}
+
+/**
+ * Parse the fmt and data chunk headers. `bytes` may be just the start of the
+ * file, in which case `fileLength` bounds an unfinalized data chunk.
+ */
+export function parseWavHeader(bytes: Uint8Array, fileLength = bytes.byteLength): WavHeader {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  if (bytes.byteLength < 12 || readFourCC(view, 0) !== 'RIFF' || readFourCC(view, 8) !== 'WAVE') {
+    throw new Error('Not a RIFF/WAVE file');
+  }
+
+  let formatTag = 0;
+  let channels = 0;
+  let sampleRate = 0;
+  let bitDepth = 0;
+  let blockAlign = 0;
+  let dataOffset = -1;
+  let dataLength = 0;
+
+  // Walk the chunk list; fmt and data may appear in any order alongside LIST/fact chunks
+  let offset = 12;
+  while (offset + 8 <= bytes.byteLength) {
+    const chunkId = readFourCC(view, offset);
+    let chunkSize = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      formatTag = view.getUint16(body, true);
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      blockAlign = view.getUint16(body + 12, true);
+      bitDepth = view.getUint16(body + 14, true);
+
+      // WAVE_FORMAT_EXTENSIBLE stores the real format in the first two bytes of the sub-format GUID
+      if (formatTag === WAVE_FORMAT_EXTENSIBLE && chunkSize >= 40) {
+        formatTag = view.getUint16(body + 24, true);
+      }
+    } else if (chunkId === 'data') {
+      // Streaming writers may leave the size as 0 or 0xFFFFFFFF if the file was not finalized
+      if (chunkSize === 0 || chunkSize === 0xffffffff || body + chunkSize > fileLength) {
+        chunkSize = fileLength - body;
+      }
+      dataOffset = body;
+      dataLength = chunkSize;
+      break;
+    }
+
+    // Chunks are padded to an even number of bytes
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  if (!sampleRate || !channels) {
+    throw new Error('WAV file is missing a valid fmt chunk');
+  }
+  if (dataOffset < 0) {
+    throw new Error('WAV file is missing a data chunk');
+  }
+
+  return { formatTag, channels, sampleRate, bitDepth, blockAlign, dataOffset, dataLength };
+}
+
+// Decode an in-memory WAV file, downmixing all channels to mono
+export function decodeWav(bytes: Uint8Array): DecodedAudio {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const { formatTag, channels, sampleRate, bitDepth, blockAlign, dataOffset, dataLength } =
+    parseWavHeader(bytes);
+
+  if (formatTag !== WAVE_FORMAT_PCM && formatTag !== WAVE_FORMAT_IEEE_FLOAT) {
+    throw new Error(`Unsupported WAV encoding: 0x${formatTag.toString(16)}`);
+  }
+
+  const isFloat = formatTag === WAVE_FORMAT_IEEE_FLOAT;
+  if (isFloat && bitDepth !== 32 && bitDepth !== 64) {
+    throw new Error(`Unsupported float bit depth: ${bitDepth}`);
+  }
+
+  const bytesPerSample = bitDepth / 8;
+  const frameSize = blockAlign || bytesPerSample * channels;
+  const frameCount = Math.floor(dataLength / frameSize);
+  const samples = new Float32Array(frameCount);
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const frameOffset = dataOffset + frame * frameSize;
+    let sum = 0;
+    for (let channel = 0; channel < channels; channel++) {
+      sum += readSample(view, frameOffset + channel * bytesPerSample, bitDepth, isFloat);
+    }
+    samples[frame] = sum / channels;
+  }
+
+  return {
+    samples,
+    sampleRate,
+    channels,
+    bitDepth,
+    format: isFloat ? 'float' : 'pcm',
+    duration: frameCount / sampleRate,
+  };
+}
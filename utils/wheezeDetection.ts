@@ -0,0 +1,242 @@
+/**
+ * Wheeze Detection
+ * Tracks sustained narrow-band spectral peaks (continuous adventitious sounds)
+ * through the STFT and relates them to the breath phases they occur in
+ */
+
+import { DecodedAudio } from './wav';
+import { stft, binFrequency, frameTime, nextPowerOfTwo, STFTResult } from './fft';
+import { BreathPhase } from './breathPhases';
+
+export interface Wheeze {
+  start: number;        // Seconds
+  end: number;          // Seconds
+  frequency: number;    // Dominant frequency in Hz
+}
+
+export interface WheezeAnalysis {
+  count: number;
+  wheezes: Wheeze[];
+  // Fraction (0-1) of total inspiration/expiration time covered by wheezes;
+  // null when the breath phases are unknown
+  inspirationCoverage: number | null;
+  expirationCoverage: number | null;
+}
+
+export const WHEEZE_MIN_FREQUENCY = 100;
+export const WHEEZE_MAX_FREQUENCY = 2000;
+export const WHEEZE_MIN_SECONDS = 0.08;
+
+const WINDOW_SECONDS = 0.046;
+const HOP_SECONDS = 0.01;
+// A peak must stand this far above the frame's median level in the band
+const MIN_PROMINENCE_DB = 12;
+// Width of a peak 6 dB below its top; wider peaks are broadband noise
+const MAX_BANDWIDTH_HZ = 80;
+// Peaks far below the loudest frame are ignored as background
+const MAX_BELOW_PEAK_DB = 45;
+// Largest frequency change between consecutive frames of one track
+const MAX_TRACK_JUMP_HZ = 40;
+// Frames a track may miss before it is closed
+const MAX_TRACK_GAP = 1;
+
+interface SpectralPeak {
+  frequency: number;
+  level: number;        // dB
+}
+
+interface Track {
+  firstFrame: number;
+  lastFrame: number;
+  frequency: number;    // Frequency of the most recent peak
+  levelSum: number;
+  frequencySum: number;
+  peaks: number;
+}
+
+function toDb(magnitude: number): number {
+  return 20 * Math.log10(Math.max(magnitude, 1e-9));
+}
+
+// Narrow, prominent local maxima of one STFT frame
+function framePeaks(result: STFTResult, frame: number, minLevel: number): SpectralPeak[] {
+  const { bins, data, binWidth } = result;
+  const levels = new Float32Array(bins);
+  for (let bin = 0; bin < bins; bin++) {
+    levels[bin] = toDb(data[frame * bins + bin]);
+  }
+
+  const sorted = Float32Array.from(levels).sort();
+  const median = sorted[Math.floor(sorted.length / 2)];
+  const maxHalfWidth = Math.max(1, Math.round(MAX_BANDWIDTH_HZ / 2 / binWidth));
+  const peaks: SpectralPeak[] = [];
+
+  for (let bin = 1; bin < bins - 1; bin++) {
+    const level = levels[bin];
+    if (level < minLevel || level - median < MIN_PROMINENCE_DB) continue;
+    if (level < levels[bin - 1] || level < levels[bin + 1]) continue;
+
+    // Both flanks must fall 6 dB within the allowed bandwidth
+    let left = bin;
+    while (left > 0 && bin - left <= maxHalfWidth && levels[left] > level - 6) left--;
+    let right = bin;
+    while (right < bins - 1 && right - bin <= maxHalfWidth && levels[right] > level - 6) right++;
+    if (bin - left > maxHalfWidth || right - bin > maxHalfWidth) continue;
+    if (levels[left] > level - 6 || levels[right] > level - 6) continue;
+
+    // Parabolic interpolation of the peak frequency
+    const y0 = levels[bin - 1];
+    const y2 = levels[bin + 1];
+    const curvature = y0 - 2 * level + y2;
+    const offset = curvature !== 0 ? (0.5 * (y0 - y2)) / curvature : 0;
+    peaks.push({ frequency: binFrequency(result, bin + offset), level });
+  }
+
+  return peaks;
+}
+
+// Link spectral peaks across frames into continuous tracks
+function trackPeaks(result: STFTResult): Track[] {
+  const { frames, bins, data } = result;
+  let loudest = -Infinity;
+  for (let i = 0; i < frames * bins; i++) {
+    if (data[i] > 0) loudest = Math.max(loudest, data[i]);
+  }
+  if (!Number.isFinite(loudest)) {
+    return [];
+  }
+  const minLevel = toDb(loudest) - MAX_BELOW_PEAK_DB;
+
+  const finished: Track[] = [];
+  let active: Track[] = [];
+
+  for (let frame = 0; frame < frames; frame++) {
+    const peaks = framePeaks(result, frame, minLevel);
+    const claimed = new Set<Track>();
+
+    for (const peak of peaks) {
+      let best: Track | null = null;
+      for (const track of active) {
+        if (claimed.has(track)) continue;
+        const jump = Math.abs(track.frequency - peak.frequency);
+        if (jump <= MAX_TRACK_JUMP_HZ && (!best || jump < Math.abs(best.frequency - peak.frequency))) {
+          best = track;
+        }
+      }
+
+      if (best) {
+        best.lastFrame = frame;
+        best.frequency = peak.frequency;
+        best.levelSum += peak.level;
+        best.frequencySum += peak.frequency;
+        best.peaks++;
+        claimed.add(best);
+      } else {
+        const track: Track = {
+          firstFrame: frame,
+          lastFrame: frame,
+          frequency: peak.frequency,
+          levelSum: peak.level,
+          frequencySum: peak.frequency,
+          peaks: 1,
+        };
+        active.push(track);
+        claimed.add(track);
+      }
+    }
+
+    const stillActive: Track[] = [];
+    for (const track of active) {
+      if (frame - track.lastFrame > MAX_TRACK_GAP) {
+        finished.push(track);
+      } else {
+        stillActive.push(track);
+      }
+    }
+    active = stillActive;
+  }
+
+  return finished.concat(active);
+}
+
+// Total time (seconds) where [start, end) overlaps any of the intervals
+function overlap(start: number, end: number, intervals: { start: number; end: number }[]): number {
+  let total = 0;
+  for (const interval of intervals) {
+    total += Math.max(0, Math.min(end, interval.end) - Math.max(start, interval.start));
+  }
+  return total;
+}
+
+// Fraction of the given phase type covered by wheezes
+function phaseCoverage(
+  wheezes: Wheeze[],
+  phases: BreathPhase[],
+  type: BreathPhase['type']
+): number | null {
+  const ofType = phases.filter(phase => phase.type === type);
+  const total = ofType.reduce((sum, phase) => sum + (phase.end - phase.start), 0);
+  if (total <= 0) {
+    return null;
+  }
+  const covered = ofType.reduce((sum, phase) => sum + overlap(phase.start, phase.end, wheezes), 0);
+  return Math.min(1, covered / total);
+}
+
+// Detect wheezes in a recording, optionally relating them to its breath phases
+export function detectWheezes(audio: DecodedAudio, phases?: BreathPhase[]): WheezeAnalysis {
+  const { samples, sampleRate } = audio;
+  const fftSize = nextPowerOfTwo(Math.round(WINDOW_SECONDS * sampleRate));
+  const hopSize = Math.max(1, Math.round(HOP_SECONDS * sampleRate));
+
+  const result = stft(samples, {
+    fftSize,
+    hopSize,
+    sampleRate,
+    window: 'hann',
+    minFrequency: WHEEZE_MIN_FREQUENCY,
+    maxFrequency: Math.min(WHEEZE_MAX_FREQUENCY, sampleRate / 2),
+  });
+
+  // The analysis window smears a tone by about a quarter of its length on each side
+  const smear = fftSize / 4 / sampleRate;
+  const tracks = trackPeaks(result)
+    .filter(track =>
+      frameTime(result, track.lastFrame + 1) - frameTime(result, track.firstFrame) - 2 * smear >=
+      WHEEZE_MIN_SECONDS
+    )
+    .sort((a, b) => a.firstFrame - b.firstFrame);
+
+  // Tracks that overlap in time (harmonics, polyphonic wheezes) form one wheeze,
+  // reported at the frequency of its loudest track
+  const wheezes: Wheeze[] = [];
+  let loudestLevel = -Infinity;
+  let lastEndFrame = -1;
+  for (const track of tracks) {
+    const level = track.levelSum / track.peaks;
+    const frequency = Math.round(track.frequencySum / track.peaks);
+    const start = Math.max(0, frameTime(result, track.firstFrame) - smear);
+    const end = frameTime(result, track.lastFrame + 1) - smear;
+    const current = wheezes[wheezes.length - 1];
+
+    if (current && track.firstFrame <= lastEndFrame) {
+      current.end = Math.max(current.end, end);
+      lastEndFrame = Math.max(lastEndFrame, track.lastFrame);
+      if (level > loudestLevel) {
+        current.frequency = frequency;
+        loudestLevel = level;
+      }
+    } else {
+      wheezes.push({ start, end, frequency });
+      lastEndFrame = track.lastFrame;
+      loudestLevel = level;
+    }
+  }
+
+  return {
+    count: wheezes.length,
+    wheezes,
+    inspirationCoverage: phases ? phaseCoverage(wheezes, phases, 'inspiration') : null,
+    expirationCoverage: phases ? phaseCoverage(wheezes, phases, 'expiration') : null,
+  };
+}
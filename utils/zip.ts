@@ -0,0 +1,122 @@
+/**
+ * ZIP
+ * Minimal streaming ZIP archive writer. Entries are stored uncompressed: the audio is
+ * already compressed or small enough that deflating would not pay off.
+ */
+
+export interface ZipEntry {
+  name: string;               // Path inside the archive, '/'-separated
+  data: Uint8Array;
+  modifiedAt?: Date;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const ZIP_VERSION = 20;
+const UTF8_FLAG = 0x0800;
+const STORED = 0;
+
+const CRC_TABLE = new Uint32Array(256);
+for (let n = 0; n < 256; n++) {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  CRC_TABLE[n] = c >>> 0;
+}
+
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS time and date fields, in local time with two-second resolution
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Write an archive entry by entry through `write`, so only the entry being
+ * added is held in memory. Call finish once after the last entry.
+ */
+export function createZipWriter(write: (bytes: Uint8Array) => void) {
+  const encoder = new TextEncoder();
+  const central: { name: Uint8Array; size: number; crc: number; time: number; date: number; offset: number }[] = [];
+  let offset = 0;
+
+  const add = (entry: ZipEntry) => {
+    const name = encoder.encode(entry.name);
+    const record = {
+      name,
+      size: entry.data.length,
+      crc: crc32(entry.data),
+      ...dosDateTime(entry.modifiedAt ?? new Date()),
+      offset,
+    };
+
+    const header = new Uint8Array(30 + name.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    view.setUint16(4, ZIP_VERSION, true);
+    view.setUint16(6, UTF8_FLAG, true);
+    view.setUint16(8, STORED, true);
+    view.setUint16(10, record.time, true);
+    view.setUint16(12, record.date, true);
+    view.setUint32(14, record.crc, true);
+    view.setUint32(18, record.size, true);                  // Compressed size
+    view.setUint32(22, record.size, true);                  // Uncompressed size
+    view.setUint16(26, name.length, true);
+    view.setUint16(28, 0, true);                            // Extra field length
+    header.set(name, 30);
+
+    write(header);
+    write(entry.data);
+    central.push(record);
+    offset += header.length + entry.data.length;
+  };
+
+  // Write the central directory; returns the archive's total size in bytes
+  const finish = (): number => {
+    const centralSize = central.reduce((sum, entry) => sum + 46 + entry.name.length, 0);
+    const output = new Uint8Array(centralSize + 22);
+    const view = new DataView(output.buffer);
+
+    let position = 0;
+    for (const entry of central) {
+      view.setUint32(position, CENTRAL_HEADER_SIGNATURE, true);
+      view.setUint16(position + 4, ZIP_VERSION, true);      // Version made by
+      view.setUint16(position + 6, ZIP_VERSION, true);      // Version needed
+      view.setUint16(position + 8, UTF8_FLAG, true);
+      view.setUint16(position + 10, STORED, true);
+      view.setUint16(position + 12, entry.time, true);
+      view.setUint16(position + 14, entry.date, true);
+      view.setUint32(position + 16, entry.crc, true);
+      view.setUint32(position + 20, entry.size, true);
+      view.setUint32(position + 24, entry.size, true);
+      view.setUint16(position + 28, entry.name.length, true);
+      // Extra, comment, disk number and attributes stay zero
+      view.setUint32(position + 42, entry.offset, true);
+      output.set(entry.name, position + 46);
+      position += 46 + entry.name.length;
+    }
+
+    view.setUint32(position, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+    view.setUint16(position + 8, central.length, true);     // Entries on this disk
+    view.setUint16(position + 10, central.length, true);    // Total entries
+    view.setUint32(position + 12, centralSize, true);
+    view.setUint32(position + 16, offset, true);            // Central directory offset
+
+    write(output);
+    return offset + output.length;
+  };
+
+  return { add, finish };
+}